@@ -0,0 +1,42 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { fileURLToPath } from "url";
+import { hashPassword, loadUsers, saveUsers } from "../server/auth";
+import { defaultStateDir } from "../server/api";
+
+// 게시 서비스 관리자 계정 추가/비밀번호 변경/삭제
+//   npm run admin:user -- <아이디>            비밀번호를 입력받아 저장(scrypt 해시)
+//   npm run admin:user -- <아이디> --delete
+// 비밀번호는 표준 입력으로 받는다(파이프 가능: echo 비밀번호 | npm run admin:user -- 아이디)
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), "..");
+const usersFile = process.env.PUBLISH_USERS_FILE || path.join(defaultStateDir(root), "users.json");
+const MIN_PASSWORD_LENGTH = 10;
+
+const [username, flag] = process.argv.slice(2);
+if (!username || !/^[A-Za-z0-9._-]+$/.test(username)) {
+  console.error("usage: npm run admin:user -- <username> [--delete]");
+  process.exit(1);
+}
+
+fs.mkdirSync(path.dirname(usersFile), { recursive: true });
+const users = loadUsers(usersFile);
+
+if (flag === "--delete") {
+  delete users[username];
+  saveUsers(usersFile, users);
+  console.log(`[admin-user] deleted ${username} (${usersFile})`);
+  process.exit(0);
+}
+
+const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY });
+rl.question("password: ", (password) => {
+  rl.close();
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.error(`[admin-user] password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    process.exit(1);
+  }
+  users[username] = hashPassword(password);
+  saveUsers(usersFile, users);
+  console.log(`[admin-user] saved ${username} (${usersFile})`);
+});
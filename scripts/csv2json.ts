@@ -0,0 +1,124 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { decodeText, type IngestIssue } from "../src/lib/csv";
+import { ingestCentersCSV, type Center } from "../src/lib/centers";
+import { buildDatasetMeta, parseDatasetMeta, type DatasetMeta } from "../src/lib/dataset";
+import { DISTRICTS } from "../src/lib/districts";
+import { ingestSessionsCSV } from "../src/lib/sessions";
+
+// data/centers.csv → public/centers.json (+ public/centers.meta.json: 버전·갱신 시각·이전 centers.json 대비 변경)
+// data/sessions.csv → public/sessions.json
+// 브라우저 관리자 업로드와 같은 파서·검증(src/lib/*.ts)을 사용한다.
+// 오류가 하나라도 있으면 JSON을 쓰지 않고 실패(exit 1)하며, 결과는 reports/centers.report.md에 남긴다.
+// 보고서는 내부용이라 public/(배포본)에 두지 않는다.
+// 게시 서비스(server/)도 같은 함수(csv2json)로 JSON을 다시 만든다.
+const REPORT = path.join("reports", "centers.report.md");
+const META = "centers.meta.json";
+
+export type Section = { file: string; records: number; issues: IngestIssue[] };
+
+export type Csv2JsonResult = {
+  ok: boolean; // 오류가 있으면 false(JSON은 그대로)
+  sections: Section[]; // centers.csv가 없으면 빈 배열
+};
+
+function formatIssue(file: string, i: IngestIssue) {
+  return `[csv2json] ${i.level === "error" ? "ERROR" : "WARN "} ${file}:${i.line ?? "-"}${i.id ? ` ${i.id}` : ""}${i.field ? ` [${i.field}]` : ""}: ${i.message}`;
+}
+
+function readCSV(root: string, name: string): string | null {
+  const src = path.join(root, "data", name);
+  if (!fs.existsSync(src)) {
+    console.warn(`[csv2json] data/${name} not found. skip.`);
+    return null;
+  }
+  return decodeText(fs.readFileSync(src));
+}
+
+function writeFile(root: string, name: string, text: string) {
+  const dst = path.join(root, name);
+  fs.mkdirSync(path.dirname(dst), { recursive: true });
+  fs.writeFileSync(dst, text, "utf-8");
+}
+
+const writePublic = (root: string, name: string, text: string) => writeFile(root, path.join("public", name), text);
+
+// 직전 빌드·게시 결과(없거나 깨졌으면 null)
+function readPublicJSON(root: string, name: string): unknown {
+  try { return JSON.parse(fs.readFileSync(path.join(root, "public", name), "utf-8")); }
+  catch { return null; }
+}
+
+const cellText = (s: string) => s.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+function renderReport(sections: Section[], failed: boolean, meta?: DatasetMeta): string {
+  const errors = sections.reduce((n, s) => n + s.issues.filter((i) => i.level === "error").length, 0);
+  const warnings = sections.reduce((n, s) => n + s.issues.length, 0) - errors;
+  const out = [
+    "# 데이터 검증 보고서",
+    "",
+    `- 생성: ${new Date().toISOString()}`,
+    `- 결과: ${failed ? "**실패**" : "통과"} (오류 ${errors}건, 경고 ${warnings}건)`,
+    ...(meta ? [`- 데이터 v${meta.version} (${meta.generatedAt}): ${describeMeta(meta)}`] : []),
+    "",
+  ];
+  for (const s of sections) {
+    out.push(`## data/${s.file}`, "", `정상 레코드 ${s.records}건`, "");
+    if (s.issues.length === 0) { out.push("문제 없음", ""); continue; }
+    out.push("| 줄 | 구분 | id | 필드 | 내용 |", "| --- | --- | --- | --- | --- |");
+    s.issues.forEach((i) => {
+      out.push(`| ${i.line ?? "-"} | ${i.level === "error" ? "오류" : "경고"} | ${cellText(i.id ?? "")} | ${i.field ?? ""} | ${cellText(i.message)} |`);
+    });
+    out.push("");
+  }
+  return out.join("\n");
+}
+
+function describeMeta(meta: DatasetMeta) {
+  const count = (kind: string) => Object.values(meta.changes).filter((c) => c.kind === kind).length;
+  return `신규 ${count("new")}, 변경 ${count("changed")}, 폐쇄·이전 ${meta.closed.length}`;
+}
+
+// root: 저장소 최상위(data/, public/가 있는 곳)
+export function csv2json(root: string): Csv2JsonResult {
+  const centersText = readCSV(root, "centers.csv");
+  if (centersText === null) return { ok: true, sections: [] };
+  const centers = ingestCentersCSV(centersText, DISTRICTS);
+  const sections: Section[] = [{ file: "centers.csv", records: centers.centers.length, issues: centers.issues }];
+
+  // 일정은 선택 사항. 존재하는 시험장 id만 허용
+  const sessionsText = readCSV(root, "sessions.csv");
+  const sessions = sessionsText === null ? null : ingestSessionsCSV(sessionsText, new Set(centers.centers.map((c) => c.id)));
+  if (sessions) sections.push({ file: "sessions.csv", records: sessions.sessions.length, issues: sessions.issues });
+
+  sections.forEach((s) => s.issues.forEach((i) => (i.level === "error" ? console.error : console.warn)(formatIssue(s.file, i))));
+  const failed = sections.some((s) => s.issues.some((i) => i.level === "error"));
+  if (failed) {
+    writeFile(root, REPORT, renderReport(sections, failed));
+    console.error(`[csv2json] validation failed. see ${REPORT}`);
+    return { ok: false, sections };
+  }
+
+  const previous = readPublicJSON(root, "centers.json");
+  const meta = buildDatasetMeta(Array.isArray(previous) ? (previous as Center[]) : null, parseDatasetMeta(readPublicJSON(root, META)), centers.centers);
+  writeFile(root, REPORT, renderReport(sections, failed, meta));
+  writePublic(root, "centers.json", JSON.stringify(centers.centers, null, 2));
+  console.log(`[csv2json] wrote ${centers.centers.length} records -> public/centers.json`);
+  writePublic(root, META, JSON.stringify(meta, null, 2));
+  console.log(`[csv2json] dataset v${meta.version} (${describeMeta(meta)}) -> public/${META}`);
+  const withTransit = centers.centers.filter((c) => (c.transit || []).length > 0).length;
+  console.log(`[csv2json] transit: ${withTransit}/${centers.centers.length} centers have subway access info`);
+  if (sessions) {
+    writePublic(root, "sessions.json", JSON.stringify(sessions.sessions, null, 2));
+    console.log(`[csv2json] wrote ${sessions.sessions.length} records -> public/sessions.json`);
+  }
+  console.log(`[csv2json] report -> ${REPORT}`);
+  return { ok: true, sections };
+}
+
+// tsx scripts/csv2json.ts 로 직접 실행(prebuild)할 때만
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const root = path.join(path.dirname(fileURLToPath(import.meta.url)), "..");
+  process.exit(csv2json(root).ok ? 0 : 1);
+}
@@ -0,0 +1,179 @@
+import * as adk from "admdongkor";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// 관할 자치구 경계 data/districts.json 생성
+//   npm run districts                 admdongkor의 최신 시점
+//   npm run districts -- 20260401     시점 지정(YYYYMMDD, admdongkor versions() 중 하나)
+// 원본: 행정안전부 행정구역(시군구) 경계 — github.com/vuski/admdongkor 가공본(MIT). 경계 파일을 GitHub에서 받으므로 네트워크 필요
+// GitHub에 접근할 수 없으면 admdongkor 저장소의 parquet 폴더를 내려받아 두고 ADMDONGKOR_BASE_URL로 가리킨다
+//   ADMDONGKOR_BASE_URL=http://localhost:8000/parquet npm run districts
+// 이웃 자치구와 맞닿은 경계가 양쪽에서 똑같이 단순화되도록, 여러 자치구가 공유하는 구간(arc)마다 한 번만 단순화한다
+// (구간별로 따로 줄이면 경계선 사이에 틈·겹침이 생겨 좌표 검증과 관할 밖 음영이 어긋난다)
+const TARGETS = [
+  { code: "11680", name: "강남구", name_en: "Gangnam-gu" },
+  { code: "11650", name: "서초구", name_en: "Seocho-gu" },
+  { code: "11710", name: "송파구", name_en: "Songpa-gu" },
+  { code: "11740", name: "강동구", name_en: "Gangdong-gu" },
+];
+const TOLERANCE = 0.0002; // 단순화 허용오차(도, 약 20m)
+const PRECISION = 5; // 좌표 소수점 자리(약 1m)
+const SOURCE = "행정안전부 행정구역 경계(github.com/vuski/admdongkor, MIT)";
+
+type Point = [number, number];
+type Ring = Point[];
+type Polygon = Ring[];
+type Target = (typeof TARGETS)[number];
+
+export type SourceFeature = {
+  properties: { sggcd: string | null; sggnm: string };
+  geometry: { type: "Polygon"; coordinates: number[][][] } | { type: "MultiPolygon"; coordinates: number[][][][] };
+};
+
+const keyOf = ([x, y]: Point) => `${x},${y}`;
+
+function ringArea(ring: Ring) {
+  let a = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) a += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  return Math.abs(a / 2);
+}
+
+// 멀티폴리곤이면 가장 큰 조각만(한강 모래톱 같은 작은 조각은 관할 판정에 쓰지 않는다)
+function mainPolygon(f: SourceFeature): { polygon: Polygon; dropped: number } {
+  const polygons = (f.geometry.type === "Polygon" ? [f.geometry.coordinates] : f.geometry.coordinates) as Polygon[];
+  const sorted = [...polygons].sort((a, b) => ringArea(b[0]) - ringArea(a[0]));
+  return { polygon: sorted[0], dropped: sorted.length - 1 };
+}
+
+// 선분까지 거리(평면 근사: 좁은 범위라 충분)
+function segmentDistance([x, y]: Point, [x1, y1]: Point, [x2, y2]: Point) {
+  const dx = x2 - x1, dy = y2 - y1;
+  const len = dx * dx + dy * dy;
+  const t = len === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / len));
+  return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+}
+
+// Douglas–Peucker. 양 끝점은 항상 남긴다
+function simplifyLine(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let index = -1, max = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistance(points[i], points[first], points[last]);
+      if (d > max) { index = i; max = d; }
+    }
+    if (index < 0) continue;
+    keep[index] = true;
+    stack.push([first, index], [index, last]);
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+// 같은 구간은 어느 쪽 고리에서 읽든 같은 방향으로 단순화(결과가 좌표 단위로 같아지도록)
+function simplifyArc(arc: Point[], tolerance: number): Point[] {
+  const reversed = keyOf(arc[0]) > keyOf(arc[arc.length - 1]);
+  const simplified = simplifyLine(reversed ? [...arc].reverse() : arc, tolerance);
+  return reversed ? simplified.reverse() : simplified;
+}
+
+// 닫힌 고리(마지막 점 = 첫 점)를 공유 구간 단위로 단순화
+// 꼭짓점마다 그 점을 지나는 고리 집합을 보고, 집합이 바뀌는 점(세 구가 만나는 점, 공유가 시작·끝나는 점)에서 자른다
+function simplifyRings(rings: Ring[], tolerance: number): Ring[] {
+  const open = rings.map((r) => (keyOf(r[0]) === keyOf(r[r.length - 1]) ? r.slice(0, -1) : r));
+  const owners = new Map<string, Set<number>>();
+  open.forEach((r, id) => r.forEach((p) => {
+    const k = keyOf(p);
+    if (!owners.has(k)) owners.set(k, new Set());
+    owners.get(k)!.add(id);
+  }));
+  const ownerKey = (p: Point) => [...owners.get(keyOf(p))!].sort((a, b) => a - b).join(",");
+
+  return open.map((ring) => {
+    const n = ring.length;
+    const nodes = ring
+      .map((_, i) => i)
+      .filter((i) => {
+        const k = ownerKey(ring[i]);
+        return k !== ownerKey(ring[(i + n - 1) % n]) || k !== ownerKey(ring[(i + 1) % n]);
+      });
+    if (nodes.length === 0) nodes.push(0); // 맞닿은 구가 없는 고리: 한 구간
+    const out: Point[] = [];
+    nodes.forEach((start, j) => {
+      const end = nodes[(j + 1) % nodes.length];
+      const arc: Point[] = [];
+      for (let i = start; ; i = (i + 1) % n) {
+        arc.push(ring[i]);
+        if (arc.length > 1 && i === end) break;
+      }
+      out.push(...simplifyArc(arc, tolerance).slice(0, -1));
+    });
+    return out;
+  });
+}
+
+const round = (v: number) => Number(v.toFixed(PRECISION));
+
+// 반올림 후 겹친 점을 빼고 고리를 닫는다
+function closeRing(ring: Ring): Ring {
+  const out: Ring = [];
+  ring.map(([x, y]) => [round(x), round(y)] as Point).forEach((p) => {
+    if (out.length === 0 || keyOf(out[out.length - 1]) !== keyOf(p)) out.push(p);
+  });
+  if (out.length > 1 && keyOf(out[0]) === keyOf(out[out.length - 1])) out.pop();
+  return [...out, out[0]];
+}
+
+// admdongkor 시군구 FeatureCollection → data/districts.json 내용
+export function buildDistricts(features: SourceFeature[], version: string, targets: Target[] = TARGETS, tolerance = TOLERANCE) {
+  const picked = targets.map((t) => {
+    const f = features.find((x) => x.properties.sggcd === t.code);
+    if (!f) throw new Error(`${t.name}(${t.code}) 경계가 없습니다 (시점 ${version})`);
+    const { polygon, dropped } = mainPolygon(f);
+    if (dropped > 0) console.warn(`[districts] ${t.name}: 작은 조각 ${dropped}개 제외`);
+    return { target: t, polygon };
+  });
+  // 모든 자치구의 고리를 한꺼번에 넘겨야 공유 구간을 알 수 있다
+  const rings = picked.flatMap((p) => p.polygon as Ring[]);
+  const simplified = simplifyRings(rings, tolerance);
+  let next = 0;
+  return {
+    type: "FeatureCollection",
+    source: `${SOURCE}, 시점 ${version}. scripts/districts.ts로 단순화(허용오차 ${tolerance}°)`,
+    features: picked.map(({ target, polygon }) => ({
+      type: "Feature",
+      properties: { code: target.code, name: target.name, name_en: target.name_en },
+      geometry: { type: "Polygon", coordinates: polygon.map(() => closeRing(simplified[next++])) },
+    })),
+  };
+}
+
+// 좌표 한 쌍은 한 줄로
+export const formatDistricts = (data: unknown) =>
+  JSON.stringify(data, null, 2).replace(/\[\s+(-?[\d.]+),\s+(-?[\d.]+)\s+\]/g, "[$1, $2]") + "\n";
+
+async function main(root: string, requested?: string) {
+  const all = adk.versions();
+  const version = requested || all[all.length - 1];
+  if (!all.includes(version)) throw new Error(`unknown version ${version} (latest: ${all[all.length - 1]})`);
+  const baseUrl = process.env.ADMDONGKOR_BASE_URL || undefined;
+  const fc = await adk.get(version, "sgg", { detail: true, baseUrl }).catch((e) => {
+    throw new Error(`${e?.message || e} — 경계 파일을 받지 못했습니다. GitHub 접근이 막혀 있으면 ADMDONGKOR_BASE_URL을 지정하세요`);
+  });
+  const data = buildDistricts(fc.features as SourceFeature[], version);
+  fs.writeFileSync(path.join(root, "data", "districts.json"), formatDistricts(data));
+  data.features.forEach((f) => console.log(`[districts] ${f.properties.name}: ${f.geometry.coordinates[0].length} points`));
+}
+
+// npm run districts 로 직접 실행할 때만
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const root = path.join(path.dirname(fileURLToPath(import.meta.url)), "..");
+  main(root, process.argv[2]).catch((e) => {
+    console.error("[districts]", e?.message || e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,39 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { transformWithEsbuild, type Plugin, type ResolvedConfig } from "vite";
+import { CACHED_AT_HEADER, DATA_FILES, DATA_UPDATED_MESSAGE, TARGET_BOUNDS, TILE_CACHE_MAX_ENTRIES, TILE_CACHE_ZOOMS } from "../src/lib/offlineConfig";
+
+// 빌드 시 src/sw.ts → dist/sw.js (vite build에서만)
+// 사전 캐시 목록은 이번 빌드 결과(index.html, assets/*) + public/의 manifest·아이콘
+// 캐시 버전은 목록의 해시: 빌드 결과가 바뀌면 새 서비스 워커가 예전 셸 캐시를 지운다
+const PUBLIC_SHELL = ["manifest.webmanifest", "icon.svg"];
+
+export function serviceWorker(): Plugin {
+  let config: ResolvedConfig;
+  return {
+    name: "seoulgn-service-worker",
+    apply: "build",
+    configResolved(resolved) {
+      config = resolved;
+    },
+    async generateBundle(_options, bundle) {
+      const shell = ["./", ...PUBLIC_SHELL, ...Object.keys(bundle).filter((f) => !f.endsWith(".map"))];
+      const version = crypto.createHash("sha256").update(shell.join("\n")).digest("hex").slice(0, 12);
+      const source = fs.readFileSync(path.join(config.root, "src", "sw.ts"), "utf-8");
+      const { code } = await transformWithEsbuild(source, "sw.ts", {
+        format: "iife",
+        minify: true,
+        define: {
+          __SW_VERSION__: JSON.stringify(version),
+          __SW_SHELL__: JSON.stringify(shell),
+          __SW_DATA__: JSON.stringify(DATA_FILES),
+          __SW_CACHED_AT__: JSON.stringify(CACHED_AT_HEADER),
+          __SW_DATA_UPDATED__: JSON.stringify(DATA_UPDATED_MESSAGE),
+          __SW_TILES__: JSON.stringify({ bounds: TARGET_BOUNDS, minZoom: TILE_CACHE_ZOOMS.min, maxZoom: TILE_CACHE_ZOOMS.max, maxEntries: TILE_CACHE_MAX_ENTRIES }),
+        },
+      });
+      this.emitFile({ type: "asset", fileName: "sw.js", source: code });
+    },
+  };
+}
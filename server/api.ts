@@ -0,0 +1,141 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import path from "path";
+import { SESSION_COOKIE, checkCredentials, createLoginThrottle, createSessionStore, loadUsers, throttleKey } from "./auth";
+import { createPublisher, type PublishResult } from "./publish";
+
+// =========================
+// 게시 서비스 HTTP API (connect 형식 미들웨어: Vite 개발 서버와 단독 서버 공용)
+// 경로는 배포 경로 뒤의 /api/* (예: /seoulgn-exam-map/api/login)
+//   GET  session   로그인 상태        → { user }
+//   POST login     { username, password }
+//   POST logout
+//   GET  history   게시 이력          → { versions }
+//   POST publish   { csv, message }  → { version, issues } | 422 { code, error, issues }
+//   POST rollback  { version }
+// 오류 응답은 { code, error }: 화면 문구는 code로 고르고(src/locales), error는 로그·curl용
+// 상태 파일(계정·이력)은 stateDir(기본 <root>/.publish). 공개 폴더 밖에 둔다
+// =========================
+export type PublishApiOptions = {
+  root: string; // 저장소 최상위(data/, public/)
+  stateDir?: string;
+  usersFile?: string; // 기본 <stateDir>/users.json
+};
+
+export type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const API_PATH = /\/api\/([a-z]+)$/;
+
+export function defaultStateDir(root: string) {
+  return process.env.PUBLISH_STATE_DIR || path.join(root, ".publish");
+}
+
+export function createPublishApi({ root, stateDir = defaultStateDir(root), usersFile }: PublishApiOptions): Middleware {
+  const users = () => loadUsers(usersFile ?? path.join(stateDir, "users.json")); // 요청마다 읽어 계정 변경을 바로 반영
+  const sessions = createSessionStore();
+  const throttle = createLoginThrottle();
+  const publisher = createPublisher({ root, stateDir });
+
+  const routes: Record<string, (ctx: Context) => Promise<void> | void> = {
+    "GET session": ({ user, send }) => (user ? send(200, { user }) : send(401, { code: "unauthorized", error: "로그인이 필요합니다." })),
+
+    "POST login": async ({ req, res, body, send }) => {
+      const { username, password } = (await body()) as { username?: unknown; password?: unknown };
+      const key = throttleKey(typeof username === "string" ? username : "", req.socket.remoteAddress || "-");
+      if (throttle.locked(key)) return send(429, { code: "locked", error: "로그인 실패가 많아 잠시 잠겼습니다. 몇 분 뒤 다시 시도하세요." });
+      if (typeof username !== "string" || typeof password !== "string" || !checkCredentials(users(), username, password)) {
+        throttle.fail(key);
+        return send(401, { code: "invalid_credentials", error: "아이디 또는 비밀번호가 올바르지 않습니다." });
+      }
+      throttle.reset(key);
+      res.setHeader("Set-Cookie", `${SESSION_COOKIE}=${sessions.create(username)}; Path=/; HttpOnly; SameSite=Strict`);
+      send(200, { user: username });
+    },
+
+    "POST logout": ({ req, res, send }) => {
+      sessions.remove(readCookie(req, SESSION_COOKIE));
+      res.setHeader("Set-Cookie", `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`);
+      send(200, {});
+    },
+
+    "GET history": ({ send }) => send(200, { versions: publisher.history() }),
+
+    "POST publish": async ({ user, body, send }) => {
+      const { csv, message } = (await body()) as { csv?: unknown; message?: unknown };
+      if (typeof csv !== "string") return send(400, { code: "bad_request", error: "csv가 없습니다." });
+      const r = await publisher.publish(csv, user!, typeof message === "string" ? message : "");
+      sendResult(send, r);
+    },
+
+    "POST rollback": async ({ user, body, send }) => {
+      const { version } = (await body()) as { version?: unknown };
+      if (!Number.isInteger(version)) return send(400, { code: "bad_request", error: "version이 없습니다." });
+      const r = await publisher.rollback(version as number, user!);
+      sendResult(send, r);
+    },
+  };
+  const PUBLIC_ROUTES = new Set(["GET session", "POST login", "POST logout"]);
+
+  return (req, res, next) => {
+    const name = new URL(req.url || "/", "http://localhost").pathname.match(API_PATH)?.[1];
+    if (!name) return next();
+    const send = (status: number, data: unknown) => {
+      res.statusCode = status;
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.setHeader("Cache-Control", "no-store");
+      res.end(JSON.stringify(data));
+    };
+    const key = `${req.method} ${name}`;
+    const route = routes[key];
+    if (!route) return send(404, { code: "not_found", error: `알 수 없는 요청: ${key}` });
+    // 쿠키 외에 JSON 본문을 요구해 단순 폼 전송(CSRF)을 막는다
+    if (req.method === "POST" && !(req.headers["content-type"] || "").startsWith("application/json")) {
+      return send(415, { code: "bad_request", error: "Content-Type은 application/json이어야 합니다." });
+    }
+    const user = sessions.get(readCookie(req, SESSION_COOKIE));
+    if (!PUBLIC_ROUTES.has(key) && !user) return send(401, { code: "unauthorized", error: "로그인이 필요합니다." });
+    Promise.resolve(route({ req, res, user, send, body: () => readJson(req) })).catch((e) => {
+      console.error("[publish]", e);
+      if (res.headersSent) return;
+      if (e instanceof BodyError) send(400, { code: "bad_request", error: e.message });
+      else send(500, { code: "server_error", error: "서버 오류" });
+    });
+  };
+}
+
+function sendResult(send: Context["send"], r: PublishResult) {
+  if (r.ok) send(200, { version: r.version, issues: r.issues });
+  else send(r.status, { code: r.code, error: r.error, issues: r.issues });
+}
+
+type Context = {
+  req: IncomingMessage;
+  res: ServerResponse;
+  user: string | null;
+  send: (status: number, data: unknown) => void;
+  body: () => Promise<unknown>;
+};
+
+class BodyError extends Error {}
+
+function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (c: Buffer) => {
+      size += c.length;
+      if (size > MAX_BODY_BYTES) { reject(new BodyError("요청이 너무 큽니다.")); req.destroy(); return; }
+      chunks.push(c);
+    });
+    req.on("end", () => {
+      try { resolve(JSON.parse(Buffer.concat(chunks).toString("utf-8") || "{}")); }
+      catch { reject(new BodyError("JSON 형식이 올바르지 않습니다.")); }
+    });
+    req.on("error", reject);
+  });
+}
+
+function readCookie(req: IncomingMessage, name: string): string | undefined {
+  const pair = (req.headers.cookie || "").split(";").map((s) => s.trim()).find((s) => s.startsWith(`${name}=`));
+  return pair?.slice(name.length + 1) || undefined;
+}
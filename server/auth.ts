@@ -0,0 +1,123 @@
+import crypto from "crypto";
+import fs from "fs";
+
+// =========================
+// 관리자 인증
+// - 계정 파일(JSON): { "아이디": "scrypt$N$r$p$salt$hash" }. 비밀번호 원문은 저장하지 않음
+//   계정 추가/변경: npm run admin:user -- <아이디>
+// - 로그인 세션은 메모리(서버 재시작 시 다시 로그인), 쿠키는 HttpOnly + SameSite=Strict
+// - 같은 주소에서 연속 실패하면 잠시 잠금
+// =========================
+const SCRYPT = { N: 16384, r: 8, p: 1, keylen: 64 };
+
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, SCRYPT.keylen, { N: SCRYPT.N, r: SCRYPT.r, p: SCRYPT.p });
+  return ["scrypt", SCRYPT.N, SCRYPT.r, SCRYPT.p, salt.toString("base64"), hash.toString("base64")].join("$");
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = crypto.scryptSync(password, Buffer.from(salt, "base64"), expected.length, { N: Number(N), r: Number(r), p: Number(p) });
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+export type Users = Record<string, string>;
+
+// 파일이 없으면 계정 없음(로그인 불가)
+export function loadUsers(file: string): Users {
+  if (!fs.existsSync(file)) return {};
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as Users;
+}
+
+export function saveUsers(file: string, users: Users) {
+  fs.writeFileSync(file, JSON.stringify(users, null, 2) + "\n", { encoding: "utf-8", mode: 0o600 });
+}
+
+// 없는 아이디도 같은 시간이 걸리도록 더미 해시로 비교
+const DUMMY_HASH = hashPassword(crypto.randomBytes(16).toString("hex"));
+
+export function checkCredentials(users: Users, username: string, password: string): boolean {
+  const stored = Object.prototype.hasOwnProperty.call(users, username) ? users[username] : undefined;
+  const ok = verifyPassword(password, stored ?? DUMMY_HASH);
+  return ok && stored !== undefined;
+}
+
+// =========================
+// 로그인 세션
+// =========================
+export const SESSION_COOKIE = "seoulgn_admin";
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+export type SessionStore = {
+  create: (user: string) => string;
+  get: (token: string | undefined) => string | null;
+  remove: (token: string | undefined) => void;
+};
+
+export function createSessionStore(ttlMs = SESSION_TTL_MS): SessionStore {
+  const sessions = new Map<string, { user: string; expires: number }>();
+  return {
+    create: (user) => {
+      const token = crypto.randomBytes(32).toString("base64url");
+      sessions.set(token, { user, expires: Date.now() + ttlMs });
+      return token;
+    },
+    get: (token) => {
+      const s = token ? sessions.get(token) : undefined;
+      if (!s) return null;
+      if (s.expires < Date.now()) { sessions.delete(token!); return null; }
+      return s.user;
+    },
+    remove: (token) => { if (token) sessions.delete(token); },
+  };
+}
+
+// =========================
+// 로그인 실패 잠금: 같은 키(아이디+IP)로 LOCK_MS 안에 MAX_FAILURES번 틀리면 LOCK_MS 동안 거부
+// - 프록시 뒤에서 IP가 모두 같아도 다른 아이디는 잠기지 않게 아이디를 함께 쓴다
+// - 만료된 기록은 실패를 기록할 때 정리하고, MAX_ENTRIES를 넘으면 잠기지 않은 오래된 기록부터 버린다
+// =========================
+const MAX_FAILURES = 5;
+const LOCK_MS = 5 * 60 * 1000;
+const MAX_ENTRIES = 10_000;
+
+export const throttleKey = (username: string, ip: string) => `${username}\n${ip}`;
+
+export type LoginThrottle = {
+  locked: (key: string) => boolean;
+  fail: (key: string) => void;
+  reset: (key: string) => void;
+};
+
+export function createLoginThrottle(): LoginThrottle {
+  const failures = new Map<string, { count: number; last: number; until: number }>();
+  const expired = (f: { last: number; until: number }, now: number) => f.until <= now && now - f.last > LOCK_MS;
+  const prune = (now: number) => {
+    for (const [key, f] of failures) if (expired(f, now)) failures.delete(key);
+    // 그래도 많으면 잠기지 않은 기록부터, 그다음 오래된 잠금
+    for (const pass of [false, true]) {
+      for (const [key, f] of failures) {
+        if (failures.size <= MAX_ENTRIES) return;
+        if (pass || f.until <= now) failures.delete(key);
+      }
+    }
+  };
+  return {
+    locked: (key) => (failures.get(key)?.until ?? 0) > Date.now(),
+    fail: (key) => {
+      const now = Date.now();
+      prune(now);
+      const prev = failures.get(key);
+      const f = prev && now - prev.last <= LOCK_MS ? prev : { count: 0, last: now, until: 0 };
+      f.count++;
+      f.last = now;
+      if (f.count >= MAX_FAILURES) { f.count = 0; f.until = now + LOCK_MS; }
+      failures.delete(key); // 최근 실패가 뒤로 가도록 다시 넣음
+      failures.set(key, f);
+    },
+    reset: (key) => { failures.delete(key); },
+  };
+}
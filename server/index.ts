@@ -0,0 +1,60 @@
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createPublishApi } from "./api";
+
+// =========================
+// 단독 실행: npm run serve:admin
+// - 게시 API + 빌드 결과(dist/)를 같은 주소에서 제공(관리자 PC·사내 서버용)
+// - PUBLISH_PORT(기본 8787), PUBLISH_BASE(기본 vite.config.ts의 base와 같은 /seoulgn-exam-map/)
+// - 게시로 바뀌는 파일(centers.json 등)은 public/에서 바로 제공(다시 빌드하지 않아도 반영)
+// =========================
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), "..");
+const port = Number(process.env.PUBLISH_PORT || 8787);
+const base = process.env.PUBLISH_BASE || "/seoulgn-exam-map/";
+const dist = path.join(root, "dist");
+
+const MIME: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript",
+  ".css": "text/css",
+  ".json": "application/json",
+  ".webmanifest": "application/manifest+json",
+  ".csv": "text/csv; charset=utf-8",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".pbf": "application/x-protobuf",
+  ".pmtiles": "application/octet-stream",
+};
+
+const PUBLISHED = new Set(["centers.json", "centers.meta.json", "sessions.json"]);
+
+function serveStatic(req: http.IncomingMessage, res: http.ServerResponse) {
+  let pathname: string;
+  try { pathname = decodeURIComponent(new URL(req.url || "/", "http://localhost").pathname); }
+  catch { res.writeHead(400).end("bad request"); return; }
+  if (!pathname.startsWith(base)) { res.writeHead(302, { Location: base }).end(); return; }
+  const rel = path.normalize(pathname.slice(base.length)).replace(/^(\.\.[/\\])+/, "");
+  const dir = PUBLISHED.has(rel) ? path.join(root, "public") : dist;
+  let file = path.join(dir, rel);
+  if (!file.startsWith(dir) || !fs.existsSync(file) || fs.statSync(file).isDirectory()) file = path.join(dist, "index.html");
+  if (!fs.existsSync(file)) { res.writeHead(404).end("dist/ not found. run npm run build first."); return; }
+  res.writeHead(200, { "Content-Type": MIME[path.extname(file)] || "application/octet-stream" });
+  fs.createReadStream(file).on("error", (e) => fail(res, e)).pipe(res);
+}
+
+// 처리 중 예외는 500으로 응답(서버 프로세스는 계속 동작)
+function fail(res: http.ServerResponse, e: unknown) {
+  console.error("[publish]", e);
+  if (!res.headersSent) res.writeHead(500);
+  res.end();
+}
+
+const api = createPublishApi({ root });
+http.createServer((req, res) => {
+  try { api(req, res, () => serveStatic(req, res)); }
+  catch (e) { fail(res, e); }
+}).listen(port, () => {
+  console.log(`[publish] http://localhost:${port}${base}`);
+});
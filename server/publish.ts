@@ -0,0 +1,108 @@
+import fs from "fs";
+import path from "path";
+import { csv2json } from "../scripts/csv2json";
+import { ingestCentersCSV } from "../src/lib/centers";
+import { decodeText, type IngestIssue } from "../src/lib/csv";
+import { DISTRICTS } from "../src/lib/districts";
+import type { ApiErrorCode } from "../src/lib/publishApi";
+
+// =========================
+// 게시: 검증된 CSV → data/centers.csv → csv2json(public/centers.json)
+// - 게시할 때마다 CSV 사본을 이력(<stateDir>/history/v<N>.csv)에 남기고, 이력 버전으로 되돌릴 수 있다
+//   되돌리기도 새 버전으로 기록(이력은 지우지 않음)
+// - 첫 게시 전에는 기존 data/centers.csv를 v1로 먼저 보관
+// - csv2json이 실패하면(예: sessions.csv가 지운 시험장을 참조) 이전 CSV로 복구
+// - 게시는 한 번에 하나씩(파일 쓰기 직렬화)
+// =========================
+export type Version = {
+  version: number;
+  publishedAt: string; // ISO 8601
+  user: string;
+  message: string;
+  records: number;
+  rollbackOf?: number; // 되돌리기로 만든 버전이면 원본 버전
+};
+
+export type PublishResult =
+  | { ok: true; version: Version; issues: IngestIssue[] } // issues: 경고만
+  | { ok: false; status: number; code: ApiErrorCode; error: string; issues?: IngestIssue[] };
+
+export type Publisher = {
+  history: () => Version[];
+  publish: (csv: string, user: string, message: string) => Promise<PublishResult>;
+  rollback: (version: number, user: string) => Promise<PublishResult>;
+};
+
+const CENTERS_CSV = path.join("data", "centers.csv");
+
+export function createPublisher({ root, stateDir }: { root: string; stateDir: string }): Publisher {
+  const historyDir = path.join(stateDir, "history");
+  const indexFile = path.join(historyDir, "index.json");
+  const csvFile = path.join(root, CENTERS_CSV);
+  const versionFile = (v: number) => path.join(historyDir, `v${v}.csv`);
+
+  const readIndex = (): Version[] => (fs.existsSync(indexFile) ? (JSON.parse(fs.readFileSync(indexFile, "utf-8")) as Version[]) : []);
+  const writeIndex = (versions: Version[]) => writeAtomic(indexFile, JSON.stringify(versions, null, 2) + "\n");
+
+  const record = (versions: Version[], csv: string, entry: Omit<Version, "version" | "publishedAt">): Version => {
+    const v: Version = { version: (versions[versions.length - 1]?.version ?? 0) + 1, publishedAt: new Date().toISOString(), ...entry };
+    writeAtomic(versionFile(v.version), csv);
+    versions.push(v);
+    writeIndex(versions);
+    return v;
+  };
+
+  const apply = (csv: string, user: string, message: string, rollbackOf?: number): PublishResult => {
+    const { centers, issues } = ingestCentersCSV(csv, DISTRICTS);
+    const errors = issues.filter((i) => i.level === "error");
+    if (errors.length > 0) return { ok: false, status: 422, code: "invalid_data", error: `검증 오류 ${errors.length}건이 있어 게시하지 않았습니다.`, issues };
+    if (centers.length === 0) return { ok: false, status: 422, code: "empty", error: "게시할 시험장이 없습니다.", issues };
+
+    fs.mkdirSync(historyDir, { recursive: true });
+    const versions = readIndex();
+    const previous = fs.existsSync(csvFile) ? fs.readFileSync(csvFile) : null;
+    if (versions.length === 0 && previous) {
+      const original = ingestCentersCSV(decodeText(previous), DISTRICTS).centers.length;
+      record(versions, decodeText(previous), { user: "-", message: "게시 서비스 도입 전 원본", records: original });
+    }
+
+    writeAtomic(csvFile, csv);
+    const built = csv2json(root);
+    if (!built.ok) {
+      if (previous) fs.writeFileSync(csvFile, previous); else fs.rmSync(csvFile);
+      csv2json(root); // 보고서·JSON을 이전 상태로
+      return { ok: false, status: 422, code: "build_failed", error: "JSON 생성(csv2json)에 실패해 이전 데이터로 되돌렸습니다.", issues: built.sections.flatMap((s) => s.issues) };
+    }
+    const version = record(versions, csv, { user, message, records: centers.length, rollbackOf });
+    console.log(`[publish] v${version.version} by ${user}: ${centers.length} centers${rollbackOf ? ` (rollback of v${rollbackOf})` : ""}`);
+    return { ok: true, version, issues };
+  };
+
+  // 직렬화: 앞선 게시가 끝난 뒤 실행
+  let queue: Promise<unknown> = Promise.resolve();
+  const serial = (job: () => PublishResult): Promise<PublishResult> => {
+    const run = queue.then(job, job);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    history: () => readIndex(),
+    publish: (csv, user, message) => serial(() => apply(csv, user, message.trim())),
+    rollback: (version, user) => serial(() => {
+      const file = versionFile(version);
+      if (!readIndex().some((v) => v.version === version) || !fs.existsSync(file)) {
+        return { ok: false, status: 404, code: "not_found", error: `버전을 찾을 수 없습니다: v${version}` };
+      }
+      return apply(fs.readFileSync(file, "utf-8"), user, `v${version}(으)로 되돌림`, version);
+    }),
+  };
+}
+
+// 임시 파일에 쓴 뒤 이름 변경(쓰다 끊겨도 반쯤 쓴 파일이 남지 않게)
+function writeAtomic(file: string, text: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, text, "utf-8");
+  fs.renameSync(tmp, file);
+}
@@ -0,0 +1,13 @@
+import type { Plugin } from "vite";
+import { createPublishApi } from "./api";
+
+// Vite 개발 서버에 게시 API(/api/*)를 붙인다(npm run dev)
+export function publishApi(): Plugin {
+  return {
+    name: "seoulgn-publish-api",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(createPublishApi({ root: server.config.root }));
+    },
+  };
+}
@@ -1,21 +1,43 @@
 import { useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
 import maplibregl, { Map as MlMap, LngLatBoundsLike } from "maplibre-gl";
 import "maplibre-gl/dist/maplibre-gl.css";
 
-// =========================
-// 데이터 스키마 정의
-// =========================
-export type Center = {
-  id: string;
-  name: string;
-  address?: string;
-  lat: number;
-  lng: number;
-  phone?: string;
-  hours?: string;
-  note?: string;
-  tags?: string[];
-};
+import { OPTIONAL_COLUMNS, REQUIRED_COLUMNS, ingestCentersCSV, keepValidCenters, type Center } from "./lib/centers";
+import { decodeText, type IngestIssue } from "./lib/csv";
+import { DISTRICTS, TARGET_BOUNDS, buildOutsideMask, districtLabel } from "./lib/districts";
+import { distanceMeters, formatDistance } from "./lib/geo";
+import { STATIONS, findStation } from "./lib/stations";
+import { readUrlState, writeUrlState } from "./lib/urlState";
+import { compareSessions, keepValidSessions, matchSessions, sessionKindLabel, type ExamSession } from "./lib/sessions";
+import { BASEMAP_SOURCE, MAP_STYLE_CONFIG, buildMapStyle, describeMapSources, hideBasemap, isGlyphError } from "./lib/mapStyle";
+import { categoriesOf, categoryColorExpression } from "./lib/categories";
+import { buildSearchIndex, searchCenters, type SearchHit } from "./lib/search";
+import { findStationByName, lineInfo, minWalkMinutes, stationLabel } from "./lib/transit";
+import { openState } from "./lib/hours";
+import { tagLabel } from "./lib/tags";
+import { FACETS, applyFacets, emptySelection, facetCounts, hasActiveFacets, pruneSelection, selectedChips, setFacetMode, toggleFacetValue, type FacetId, type FacetMode } from "./lib/facets";
+import { IssueTable } from "./components/IssueTable";
+import { CategoryBadge, Legend } from "./components/Legend";
+import { CenterEditor } from "./components/CenterEditor";
+import { CenterDetail } from "./components/CenterDetail";
+import { Highlight } from "./components/Highlight";
+import { Collapsible } from "./components/Collapsible";
+import { BottomSheet, sheetHeight, type SheetSnap } from "./components/BottomSheet";
+import { NARROW_QUERY, useMediaQuery } from "./lib/useMediaQuery";
+import { TransitBadges } from "./components/TransitBadges";
+import { I18nContext, LANGS, dateLocale, detectLang, localized, storeLang, translator, type Lang } from "./lib/i18n";
+import { ExamDayHours, OpenBadge } from "./components/HoursTable";
+import { PrintSheet } from "./components/PrintSheet";
+import { capturePages, type PrintPage } from "./lib/print";
+import { getSession } from "./lib/publishApi";
+import { AdminPanel } from "./components/AdminPanel";
+import { CHANGE_COLORS, activeMeta, parseDatasetMeta, type DatasetMeta } from "./lib/dataset";
+import { ChangeBadge, ClosedCenters } from "./components/DatasetBadges";
+import { cachedAt, onDataUpdated, useOnline } from "./lib/offline";
+import { OfflineBadge, SaveMapButton } from "./components/OfflineStatus";
+
+export type { Center } from "./lib/centers";
 
 // 초기값: CSV/centers.json 로드 전 기본 값
 const INITIAL_CENTERS: Center[] = [];
@@ -27,206 +49,488 @@ function assert(condition: boolean, message: string) {
   if (!condition) throw new Error("Test failed: " + message);
 }
 
-function validateCenters(data: Center[], bounds?: LngLatBoundsLike) {
-  data.forEach((c) => {
-    assert(typeof c.id === "string" && c.id.length > 0, `invalid id for ${c.name}`);
-    assert(typeof c.name === "string" && c.name.length > 0, `invalid name for ${c.id}`);
-    assert(typeof c.lat === "number" && !Number.isNaN(c.lat), `lat must be number: ${c.id}`);
-    assert(typeof c.lng === "number" && !Number.isNaN(c.lng), `lng must be number: ${c.id}`);
-    if (bounds) {
-      const [[w, s], [e, n]] = bounds as any;
-      assert(c.lat >= s && c.lat <= n, `lat out of bounds: ${c.id}`);
-      assert(c.lng >= w && c.lng <= e, `lng out of bounds: ${c.id}`);
-    }
-  });
-}
-
 function runSmokeTests(map: MlMap) {
   const style = map.getStyle();
   assert(!!(style as any).glyphs, 'style.glyphs missing (required for "text-field")');
-  ["clusters", "cluster-count", "unclustered", "labels", "outside-mask", "region-outline"].forEach((id) => {
+  assert(style.glyphs === MAP_STYLE_CONFIG.glyphs, `style.glyphs is not the configured url: ${style.glyphs}`);
+  const basemap = style.sources[BASEMAP_SOURCE] as any;
+  assert(!!basemap, `source not found: ${BASEMAP_SOURCE}`);
+  assert(basemap.type === MAP_STYLE_CONFIG.tilesType, `source ${BASEMAP_SOURCE} type ${basemap.type} != ${MAP_STYLE_CONFIG.tilesType}`);
+  const tileUrl = MAP_STYLE_CONFIG.pmtiles ? basemap.url : basemap.tiles?.[0];
+  assert(tileUrl === MAP_STYLE_CONFIG.tilesUrl, `source ${BASEMAP_SOURCE} url ${tileUrl} != ${MAP_STYLE_CONFIG.tilesUrl}`);
+  ["clusters", "cluster-count", "unclustered", "labels", "outside-mask", "region-outline", "region-labels"].forEach((id) => {
     assert(!!map.getLayer(id), `layer not found: ${id}`);
   });
 }
 
-// CSV 파서: 헤더 기반. tags는 ; 또는 , 구분 허용
-function parseCSV(text: string): Center[] {
-  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
-  if (lines.length === 0) return [];
-  const header = lines[0].split(",").map((h) => h.trim());
-  const idx = (k: string) => header.findIndex((h) => h.toLowerCase() === k);
-  const idI = idx("id"), nameI = idx("name"), addrI = idx("address"), latI = idx("lat"), lngI = idx("lng"), phoneI = idx("phone"), hoursI = idx("hours"), noteI = idx("note"), tagsI = idx("tags");
-  assert(idI >= 0 && nameI >= 0 && latI >= 0 && lngI >= 0, "CSV header must include id,name,lat,lng");
-  const rows = lines.slice(1);
-  const out: Center[] = [];
-  for (const row of rows) {
-    const cells = row.split(",");
-    if (cells.length === 1 && cells[0].trim() === "") continue;
-    const get = (i: number) => (i >= 0 ? cells[i]?.trim() ?? "" : "");
-    const lat = Number(get(latI));
-    const lng = Number(get(lngI));
-    const tagsRaw = get(tagsI);
-    const tags = tagsRaw ? tagsRaw.split(/[;|,]/).map((t) => t.trim()).filter(Boolean) : [];
-    out.push({ id: get(idI), name: get(nameI), address: get(addrI), lat, lng, phone: get(phoneI), hours: get(hoursI), note: get(noteI), tags });
-  }
-  return out;
+function logIssues(issues: IngestIssue[], scope = "centers") {
+  issues.forEach((i) => (i.level === "error" ? console.error : console.warn)(`[${scope}] ${i.line ? `line ${i.line}: ` : ""}${i.id ? `${i.id} ` : ""}${i.message}`));
+}
+
+// 지하철 출구 도보 시간 필터 단계(분)
+const WALK_LIMITS = [3, 5, 10, 15];
+
+// 근접 정렬 출발지: 브라우저 위치, 지도 클릭, 번들 지하철역 중 하나(이름은 표시 언어로 렌더 시 결정)
+type Origin = { kind: "geolocation" | "map" | "station"; lng: number; lat: number; stationId?: string };
+type GeoError = { kind: "unsupported" } | { kind: "failed"; message: string };
+
+// 배포 경로(BASE_URL) 기준 공개 파일 URL
+function publicUrl(name: string) {
+  const basePath = ((import.meta as any)?.env?.BASE_URL || (window as any).BASE_URL || "/") as string;
+  const absBase = new URL(basePath, window.location.origin).toString();
+  return new URL(name, absBase).toString();
 }
 
 // 지도 보조 유틸
-function hasTag(c: Center, t: string) { return (c.tags || []).some((x) => x.trim() === t); }
 function fitToData(map: MlMap, coords: [number, number][]) {
   if (!coords || coords.length === 0) return;
   const b = new maplibregl.LngLatBounds();
   coords.forEach((c) => b.extend(c as any));
   map.fitBounds(b as LngLatBoundsLike, { padding: 40, duration: 600 });
 }
-function buildOutsideMask(bounds: [[number, number], [number, number]]) {
-  const [[west, south], [east, north]] = bounds;
-  const world = [ [-180, -85], [180, -85], [180, 85], [-180, 85], [-180, -85] ];
-  const region = [ [west, south], [east, south], [east, north], [west, north], [west, south] ];
-  return { type: "FeatureCollection", features: [
-    { type: "Feature", properties: { role: "mask" }, geometry: { type: "Polygon", coordinates: [world, region] as any } },
-    { type: "Feature", properties: { role: "region" }, geometry: { type: "Polygon", coordinates: [region] as any } }
-  ] } as const;
-}
 
 export default function SeoulExamCentersMap() {
   const mapRef = useRef<HTMLDivElement | null>(null);
   const mapObj = useRef<MlMap | null>(null);
+  const popupRef = useRef<maplibregl.Popup | null>(null);
+  const [popupNode] = useState(() => document.createElement("div")); // 팝업 내용은 React 포털로 렌더
+  const popupCenterRef = useRef<string | null>(null); // 팝업이 열려 있는 시험장
+  const flownRef = useRef<string | null>(null); // 마지막으로 지도를 이동시킨 선택
+  const [mapReady, setMapReady] = useState(false);
+  const [mapNotice, setMapNotice] = useState<{ tiles?: boolean; glyphs?: boolean }>({});
+
+  // 공유 링크: 첫 렌더 상태를 URL에서 복원
+  const [initialUrl] = useState(() => readUrlState(window.location.search));
+  const keepViewRef = useRef(Boolean(initialUrl.view || initialUrl.center));
+
+  // 표시 언어: URL > 저장값 > 브라우저 언어. 직접 바꾼 값만 저장
+  const [lang, setLang] = useState<Lang>(() => initialUrl.lang ?? detectLang());
+  const i18n = useMemo(() => ({ lang, t: translator(lang) }), [lang]);
+  const { t } = i18n;
+  const changeLang = (next: Lang) => { storeLang(next); setLang(next); };
+  const mapSources = useMemo(() => describeMapSources(lang), [lang]);
+  useEffect(() => {
+    document.documentElement.lang = lang;
+    document.title = t("app.documentTitle");
+  }, [lang, t]);
 
-  const [query, setQuery] = useState("");
+  const [query, setQuery] = useState(initialUrl.q);
   const [centers, setCenters] = useState<Center[]>(INITIAL_CENTERS);
+  // 불러온 공개 데이터(관리자 편집기의 비교 기준)
+  const [baseline, setBaseline] = useState<Center[]>(INITIAL_CENTERS);
   const [csvError, setCsvError] = useState<string | null>(null);
+  const [csvIssues, setCsvIssues] = useState<IngestIssue[]>([]);
   // 파일 상단 컴포넌트 내부에 추가
 const [sidebarOpen, setSidebarOpen] = useState(true);
 
-// 사이드바 토글 시 지도 리사이즈
+  // 좁은 화면: 사이드바 대신 하단 시트(peek/half/full)
+  const narrow = useMediaQuery(NARROW_QUERY);
+  const [sheetSnap, setSheetSnap] = useState<SheetSnap>("peek");
+  const narrowRef = useRef(narrow);
+  useEffect(() => { narrowRef.current = narrow; }, [narrow]);
+
+// 사이드바 토글·레이아웃 전환 시 지도 리사이즈
 useEffect(() => {
   // 사이드바 애니메이션이 끝난 뒤 리사이즈(미세 딜레이)
   const t = setTimeout(() => mapObj.current?.resize(), 220);
   return () => clearTimeout(t);
-}, [sidebarOpen]);
+}, [sidebarOpen, narrow]);
 
 
-  // 관리자 모드 게이트: ?admin=SECRET 이 VITE_ADMIN_SECRET와 일치할 때만 업로드 UI 노출
-  const admin = useMemo(() => {
-    try {
-      const params = new URLSearchParams(window.location.search);
-      const fromUrl = params.get("admin") || "";
-      // @ts-ignore
-      const secret = (import.meta && import.meta.env && import.meta.env.VITE_ADMIN_SECRET) || "";
-      return Boolean(secret) && fromUrl === String(secret);
-    } catch { return false; }
+  // 관리자 모드: ?admin 이 있으면 로그인 패널 표시, 게시 서비스에 로그인해야 업로드·편집 UI 노출
+  const wantsAdmin = useMemo(() => new URLSearchParams(window.location.search).has("admin"), []);
+  const [adminUser, setAdminUser] = useState<string | null>(null);
+  const admin = adminUser !== null;
+  useEffect(() => {
+    if (!wantsAdmin) return;
+    getSession().then((r) => { if (r.ok) setAdminUser(r.data.user); });
+  }, [wantsAdmin]);
+
+  // 다중 조건 필터(태그·분류·자치구·주차). 항목 정의는 lib/facets.ts
+  const [facets, setFacets] = useState(initialUrl.facets);
+  const toggleFacet = (id: FacetId, value: string) => setFacets((prev) => toggleFacetValue(prev, id, value));
+  const changeFacetMode = (id: FacetId, mode: FacetMode) => setFacets((prev) => setFacetMode(prev, id, mode));
+
+  // 지하철 출구에서 도보 N분 이내(transit.walkMinutes 기준, 모르면 제외)
+  const [walkLimit, setWalkLimit] = useState<number | null>(initialUrl.walk);
+  const [showStations, setShowStations] = useState(false);
+
+  // 운영시간: 1분마다 현재 시각 갱신(운영 중 표시·필터)
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const t = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(t);
   }, []);
+  const [openNow, setOpenNow] = useState(initialUrl.openNow);
 
-  // 강남·서초·송파·강동 경계 근사 BBox 고정
-  const TARGET_BOUNDS: LngLatBoundsLike = useMemo(() => [[126.96, 37.43], [127.18, 37.59]], []);
+  // 데이터셋 메타데이터(centers.meta.json): 유지 기간이 지난 배지·폐쇄 표시는 현재 시각 기준으로 숨김
+  const [datasetMeta, setDatasetMeta] = useState<DatasetMeta | null>(null);
+  const meta = useMemo(() => (datasetMeta ? activeMeta(datasetMeta, now) : null), [datasetMeta, now]);
 
-  // 태그 목록, 필터 상태
-  const allTags = useMemo(() => {
-    const s = new Set<string>();
-    centers.forEach((c) => (c.tags || []).forEach((t) => s.add(t.trim())));
-    return Array.from(s).sort();
-  }, [centers]);
-  const [activeTag, setActiveTag] = useState<string | null>(null);
-  const selectTag = (t: string) => setActiveTag((prev) => (prev === t ? null : t));
-  const clearTag = () => setActiveTag(null);
+  // 오프라인(PWA): 연결 상태, 보고 있는 시험장 데이터의 시각(서비스 워커 캐시에서 왔으면 캐시 시각)
+  const online = useOnline();
+  const [dataTime, setDataTime] = useState<string | null>(null);
 
+  const filtersActive = hasActiveFacets(facets) || walkLimit !== null || openNow;
+  const clearFacets = () => { setFacets(emptySelection()); setWalkLimit(null); setOpenNow(false); };
 
-  // 검색 + 태그 필터
-  const filtered = useMemo(() => {
-  const q = query.trim().toLowerCase();
-  let arr = centers;
-  if (q) {
-    arr = arr.filter((c) =>
-      [c.name, c.address, c.note, ...(c.tags || [])]
-        .join(" ")
-        .toLowerCase()
-        .includes(q)
+  // 시험 일정: 날짜/자격명으로 회차를 고르고, 해당 회차가 있는 시험장만 표시
+  const [sessions, setSessions] = useState<ExamSession[]>([]);
+  const [sessionsLoaded, setSessionsLoaded] = useState(false);
+  const [examDate, setExamDate] = useState(initialUrl.date);
+  const [qualQuery, setQualQuery] = useState(initialUrl.qual);
+  const sessionFilterOn = Boolean(examDate || qualQuery.trim());
+  const matchedSessions = useMemo(() => matchSessions(sessions, examDate, qualQuery).sort(compareSessions), [sessions, examDate, qualQuery]);
+  const sessionsByCenter = useMemo(() => {
+    const m = new Map<string, ExamSession[]>();
+    matchedSessions.forEach((s) => m.set(s.centerId, [...(m.get(s.centerId) || []), s]));
+    return m;
+  }, [matchedSessions]);
+  const qualifications = useMemo(() => Array.from(new Set(sessions.map((s) => s.qualification))).sort(), [sessions]);
+
+  // 근접 모드: 출발지가 있으면 직선거리 순 정렬 + 선택 시험장까지 선 표시
+  const [origin, setOrigin] = useState<Origin | null>(null);
+  const [pickingOrigin, setPickingOrigin] = useState(false);
+  const pickingRef = useRef(false);
+  useEffect(() => { pickingRef.current = pickingOrigin; }, [pickingOrigin]);
+  const [geoError, setGeoError] = useState<GeoError | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(initialUrl.center);
+  const distances = useMemo(() => {
+    const m = new Map<string, number>();
+    if (origin) centers.forEach((c) => m.set(c.id, distanceMeters([origin.lng, origin.lat], [c.lng, c.lat])));
+    return m;
+  }, [centers, origin]);
+  const useMyLocation = () => {
+    setGeoError(null);
+    if (!navigator.geolocation) { setGeoError({ kind: "unsupported" }); return; }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setOrigin({ kind: "geolocation", lng: pos.coords.longitude, lat: pos.coords.latitude }),
+      (err) => setGeoError({ kind: "failed", message: err.message }),
+      { enableHighAccuracy: true, timeout: 10000 }
     );
-  }
-  if (activeTag) {
-    arr = arr.filter((c) => (c.tags || []).some((t) => t === activeTag));
+  };
+  const selectStation = (id: string) => {
+    const st = findStation(id);
+    setOrigin(st ? { kind: "station", lng: st.lng, lat: st.lat, stationId: st.id } : null);
+  };
+  const originStation = origin?.stationId ? findStation(origin.stationId) : undefined;
+  const originLabel = !origin ? ""
+    : originStation ? stationLabel(originStation.name, lang)
+    : t(origin.kind === "geolocation" ? "origin.current" : "origin.mapPoint");
+
+
+  // 검색: 초성·오타 허용, 점수순(lib/search.ts)
+  const searchIndex = useMemo(() => buildSearchIndex(centers, lang), [centers, lang]);
+  const searchHits = useMemo(() => searchCenters(searchIndex, query), [searchIndex, query]);
+  const hitById = useMemo(() => {
+    const m = new Map<string, SearchHit<Center>>();
+    searchHits.forEach((h) => m.set(h.item.id, h));
+    return m;
+  }, [searchHits]);
+  const [suggestOpen, setSuggestOpen] = useState(false);
+  const [suggestIndex, setSuggestIndex] = useState(0);
+
+  // 검색 + 시험 일정 + 도보 시간을 통과한 목록. 필터 옵션별 개수도 이 기준
+  const searchable = useMemo(() => {
+    let arr = searchHits.map((h) => h.item);
+    if (sessionFilterOn) arr = arr.filter((c) => sessionsByCenter.has(c.id));
+    if (walkLimit) arr = arr.filter((c) => (minWalkMinutes(c.transit) ?? Infinity) <= walkLimit);
+    if (openNow) arr = arr.filter((c) => openState(c.openingHours, now) === "open");
+    return arr;
+  }, [searchHits, sessionFilterOn, sessionsByCenter, walkLimit, openNow, now]);
+  const facetOptionCounts = useMemo(
+    () => new Map(FACETS.map((f) => [f.id, facetCounts(searchable, facets, f.id)])),
+    [searchable, facets]
+  );
+  const facetChips = useMemo(() => selectedChips(facets, centers, lang), [facets, centers, lang]);
+
+  // 검색 + 다중 조건 + 시험 일정 필터
+  // 검색어가 있으면 점수순, 출발지가 있으면 동점끼리 거리순
+  const filtered = useMemo(() => {
+  let arr = applyFacets(searchable, facets);
+  if (origin) {
+    const score = (c: Center) => hitById.get(c.id)?.score ?? 0;
+    arr = [...arr].sort((a, b) => score(b) - score(a) || (distances.get(a.id) ?? Infinity) - (distances.get(b.id) ?? Infinity));
   }
   return arr;
-}, [centers, query, activeTag]);
+}, [searchable, facets, hitById, origin, distances]);
 
 
-  // GeoJSON: examType 파생. 실기(작업) 빨강, 필기 파랑, 나머지 초록
+  // GeoJSON: 분류 파생(data/categories.json). category=대표, category2=두 번째(링 마커)
   const geojson = useMemo(() => ({
     type: "FeatureCollection",
-    features: filtered.map((c) => {
-      const examType = hasTag(c, "실기(작업)") ? "실기(작업)" : hasTag(c, "필기") ? "필기" : "기타";
+    features: filtered.map((c, i) => {
+      const cats = categoriesOf(c);
       return {
         type: "Feature",
+        id: i, // feature-state(목록 hover 강조)용
         properties: {
-          id: c.id, name: c.name, address: c.address, phone: c.phone, hours: c.hours, note: c.note,
-          tags: (c.tags || []).join(", "), examType
+          id: c.id, name: localized(c, "name", lang), district: c.district,
+          category: cats[0].id, category2: cats[1]?.id ?? "",
+          open: openState(c.openingHours, now),
+          change: meta?.changes[c.id]?.kind ?? ""
         },
         geometry: { type: "Point", coordinates: [c.lng, c.lat] }
       } as const;
     })
-  }), [filtered]);
+  }), [filtered, now, lang, meta]);
 
-  // CSV 업로드/붙여넣기(관리자)
-  const onUploadCSV = async (file: File) => {
-    setCsvError(null);
-    try { const text = await file.text(); const parsed = parseCSV(text); validateCenters(parsed, TARGET_BOUNDS); setCenters(parsed); }
-    catch (e: any) { setCsvError(e?.message || String(e)); }
+  // 선택 시험장 상세(팝업/사이드바 공용): 선택 날짜가 있으면 그날 회차, 없으면 전체 회차
+  const selected = useMemo(() => centers.find((c) => c.id === selectedId) ?? null, [centers, selectedId]);
+  const selectedIndex = selected ? filtered.findIndex((c) => c.id === selected.id) : -1;
+  const sessionsOf = (id: string) => (sessionFilterOn ? sessionsByCenter.get(id) || [] : sessions.filter((s) => s.centerId === id).sort(compareSessions));
+  const stepSelection = (delta: number) => {
+    const next = filtered[selectedIndex + delta];
+    if (next) setSelectedId(next.id);
+  };
+  const detailProps = selected && {
+    center: selected,
+    sessions: sessionsOf(selected.id),
+    distance: distances.has(selected.id) ? formatDistance(distances.get(selected.id)!) : undefined,
+    position: selectedIndex >= 0 ? { index: selectedIndex, total: filtered.length } : undefined,
+    onPrev: selectedIndex > 0 ? () => stepSelection(-1) : undefined,
+    onNext: selectedIndex >= 0 && selectedIndex < filtered.length - 1 ? () => stepSelection(1) : undefined,
+    now,
+    examDate: examDate || undefined,
+    onPrint: () => startPrint([selected]),
+  };
+
+  // 인쇄용 안내문: 시험장마다 지도를 옮겨 캡처(lib/print.ts). 닫으면 진행 중인 캡처도 중단
+  const [printJob, setPrintJob] = useState<{ total: number; pages: PrintPage[]; ready: boolean } | null>(null);
+  const printAbortRef = useRef<AbortController | null>(null);
+  const startPrint = async (list: Center[]) => {
+    if (list.length === 0 || printAbortRef.current) return;
+    const abort = new AbortController();
+    printAbortRef.current = abort;
+    setPrintJob({ total: list.length, pages: [], ready: false });
+    try {
+      await capturePages(mapReady ? mapObj.current : null, list, lang, (page) => {
+        if (!abort.signal.aborted) setPrintJob((j) => j && { ...j, pages: [...j.pages, page] });
+      }, abort.signal);
+      if (!abort.signal.aborted) setPrintJob((j) => j && { ...j, ready: true });
+    } catch (e) {
+      console.error(e);
+      setPrintJob(null);
+    } finally {
+      printAbortRef.current = null;
+    }
+  };
+  const closePrint = () => {
+    printAbortRef.current?.abort();
+    setPrintJob(null);
+  };
+
+  // 검색 추천: 현재 필터를 통과한 상위 결과 → 선택 시 바로 이동
+  const suggestions = useMemo(
+    () => (query.trim() ? filtered.slice(0, 6).map((c) => hitById.get(c.id)!).filter(Boolean) : []),
+    [query, filtered, hitById]
+  );
+  const chooseSuggestion = (c: Center) => {
+    setSelectedId(c.id);
+    setSuggestOpen(false);
+  };
+  const onSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") { setSuggestOpen(false); return; }
+    if (!suggestOpen || suggestions.length === 0) {
+      if (e.key === "ArrowDown") setSuggestOpen(true);
+      return;
+    }
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSuggestIndex((i) => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      chooseSuggestion(suggestions[Math.min(suggestIndex, suggestions.length - 1)].item);
+    }
   };
-  const onPasteCSV = (text: string) => {
+
+  const geojsonRef = useRef(geojson);
+
+  // 상태 → URL. 선택 시험장이 바뀌면 push(뒤로가기로 이전 선택 복귀), 그 외는 replace
+  const prevSelectedRef = useRef(selectedId);
+  const replaceNextRef = useRef(false);
+  useEffect(() => {
+    const next = writeUrlState(window.location.search, { q: query, facets, walk: walkLimit, openNow, date: examDate, qual: qualQuery, center: selectedId, lang });
+    if (next !== window.location.search) {
+      const url = window.location.pathname + next + window.location.hash;
+      if (prevSelectedRef.current !== selectedId && !replaceNextRef.current) history.pushState(null, "", url);
+      else history.replaceState(history.state, "", url);
+    }
+    prevSelectedRef.current = selectedId;
+    replaceNextRef.current = false;
+  }, [query, facets, walkLimit, openNow, examDate, qualQuery, selectedId, lang]);
+
+  // URL → 상태(뒤로/앞으로 가기)
+  useEffect(() => {
+    const onPop = () => {
+      const u = readUrlState(window.location.search);
+      setQuery(u.q);
+      setFacets(u.facets);
+      setWalkLimit(u.walk);
+      setOpenNow(u.openNow);
+      setExamDate(u.date);
+      setQualQuery(u.qual);
+      setSelectedId(u.center);
+      if (u.lang) setLang(u.lang);
+      if (u.view && !u.center) mapObj.current?.jumpTo({ center: [u.view.lng, u.view.lat], zoom: u.view.zoom });
+    };
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, []);
+
+  // 링크로 들어온 시험장 id/필터 값이 데이터에 없으면 버림(데이터 로드 후)
+  useEffect(() => {
+    if (centers.length === 0) return;
+    if (selectedId && !centers.some((c) => c.id === selectedId)) {
+      console.warn(`[url] unknown center id: ${selectedId}`);
+      replaceNextRef.current = true;
+      setSelectedId(null);
+    }
+    const pruned = pruneSelection(facets, centers);
+    if (pruned !== facets) {
+      console.warn("[url] unknown filter values dropped");
+      replaceNextRef.current = true;
+      setFacets(pruned);
+    }
+  }, [centers, selectedId, facets]);
+
+  // 검색·필터로 목록에서 빠진 시험장은 선택 해제(상세·팝업 닫힘). 일정 필터는 sessions.json을 받은 뒤에 판단
+  useEffect(() => {
+    if (!selectedId || centers.length === 0 || (sessionFilterOn && !sessionsLoaded)) return;
+    if (!filtered.some((c) => c.id === selectedId)) {
+      replaceNextRef.current = true;
+      setSelectedId(null);
+    }
+  }, [filtered, selectedId, centers.length, sessionFilterOn, sessionsLoaded]);
+
+  // 출발지 → 선택 시험장 직선
+  const proximityGeojson = useMemo(() => {
+    const features: any[] = [];
+    if (origin) {
+      features.push({ type: "Feature", properties: { role: "origin", label: originLabel }, geometry: { type: "Point", coordinates: [origin.lng, origin.lat] } });
+      const target = centers.find((c) => c.id === selectedId);
+      if (target) {
+        features.push({ type: "Feature", properties: { role: "line", label: formatDistance(distances.get(target.id) ?? 0) },
+          geometry: { type: "LineString", coordinates: [[origin.lng, origin.lat], [target.lng, target.lat]] } });
+      }
+    }
+    return { type: "FeatureCollection", features };
+  }, [origin, originLabel, selectedId, centers, distances]);
+  const proximityGeojsonRef = useRef(proximityGeojson);
+
+  // 표시 중인 시험장이 안내하는 지하철역(data/stations.json에 있는 역만)
+  const stationsGeojson = useMemo(() => {
+    const names = new Set(filtered.flatMap((c) => (c.transit || []).map((t) => t.station)));
+    const features = Array.from(names).flatMap((name) => {
+      const st = findStationByName(name);
+      if (!st) return [];
+      return [{
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [st.lng, st.lat] },
+        properties: { id: st.id, name: stationLabel(st.name, lang), color: lineInfo(st.lines[0] ?? "").color },
+      }];
+    });
+    return { type: "FeatureCollection", features };
+  }, [filtered, lang]);
+  const stationsGeojsonRef = useRef(stationsGeojson);
+
+  // 이전·폐쇄된 시험장(centers.meta.json): 흐린 마커. 클릭하면 옮겨 간 시험장 선택
+  const closedGeojson = useMemo(() => ({
+    type: "FeatureCollection",
+    features: (meta?.closed ?? []).map((c) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [c.lng, c.lat] },
+      properties: {
+        id: c.id, movedTo: c.movedTo?.[0] ?? "",
+        name: `${localized(c, "name", lang)} (${t(c.movedTo?.length ? "closed.moved" : "closed.closed")})`,
+      },
+    })),
+  }), [meta, lang]);
+  const closedGeojsonRef = useRef(closedGeojson);
+
+  // CSV 업로드/붙여넣기(관리자): 오류 행은 제외하고, 남은 행이 있으면 반영
+  const applyCSV = (text: string) => {
     setCsvError(null);
-    try { const parsed = parseCSV(text); validateCenters(parsed, TARGET_BOUNDS); setCenters(parsed); }
+    const { centers: parsed, issues } = ingestCentersCSV(text, DISTRICTS);
+    setCsvIssues(issues);
+    if (parsed.length > 0) setCenters(parsed);
+    else if (text.trim()) setCsvError(t("csv.noRows"));
+  };
+  const onUploadCSV = async (file: File) => {
+    try { applyCSV(decodeText(await file.arrayBuffer())); }
     catch (e: any) { setCsvError(e?.message || String(e)); }
   };
+  const onPasteCSV = (text: string) => applyCSV(text);
+
+  // 데이터셋 메타데이터(선택): 최종 갱신, 신규/변경 배지, 이전·폐쇄 시험장. 없으면 표시 없이 동작
+  const loadDatasetMeta = async () => {
+    try {
+      const res = await fetch(publicUrl("centers.meta.json"), { cache: "no-store" });
+      setDatasetMeta(res.ok ? parseDatasetMeta(await res.json()) : null);
+    } catch { setDatasetMeta(null); }
+  };
+
+  // 공개 JSON 자동 로드(있을 때만) + 실패 시 CSV 런타임 파싱 폴백. 관리자 모드에서는 편집 기준 데이터
+  // 게시·되돌리기 후에도 다시 불러온다
+  const loadCenters = async () => {
+    const load = (data: Center[]) => { setCenters(data); setBaseline(data); };
+    try {
+      // 1차: centers.json 시도
+      const jsonUrl = publicUrl("centers.json");
+      const res = await fetch(jsonUrl, { cache: "no-store" });
+      if (res.ok) {
+        const data = await res.json();
+        if (Array.isArray(data) && data.length > 0) {
+          const { centers: valid, issues } = keepValidCenters(data as Center[], DISTRICTS);
+          logIssues(issues);
+          load(valid);
+          setDataTime(cachedAt(res) ?? new Date().toISOString());
+          return;
+        }
+      }
+      // 2차: data/centers.csv 런타임 파싱
+      const csvUrl = publicUrl("data/centers.csv");
+      const csvRes = await fetch(csvUrl, { cache: "no-store" });
+      if (csvRes.ok) {
+        const { centers: parsed, issues } = ingestCentersCSV(decodeText(await csvRes.arrayBuffer()), DISTRICTS);
+        logIssues(issues);
+        if (parsed.length > 0) {
+          load(parsed);
+          console.warn("[fallback] loaded data from data/centers.csv at runtime");
+        }
+      } else {
+        console.warn("centers.json and data/centers.csv not found. showing empty map.");
+      }
+    } catch (e) { console.error(e); }
+  };
+  const reloadData = () => { loadCenters(); loadDatasetMeta(); };
+  useEffect(reloadData, []);
+  // 서비스 워커가 뒤에서 새 데이터를 받으면 다시 불러오기
+  useEffect(() => onDataUpdated(reloadData), []);
 
-  // 비관리자: 공개 JSON 자동 로드(있을 때만) + 실패 시 CSV 런타임 파싱 폴백
+  // 시험 일정(선택): sessions.json 없으면 일정 필터 없이 동작
   useEffect(() => {
-    if (admin) return;
     (async () => {
       try {
-        const basePath = ((import.meta as any)?.env?.BASE_URL || (window as any).BASE_URL || "/") as string;
-      const absBase = new URL(basePath, window.location.origin).toString();
-        // 1차: centers.json 시도
-        const jsonUrl = new URL("centers.json", absBase).toString();
-        const res = await fetch(jsonUrl, { cache: "no-store" });
-        if (res.ok) {
-          const data = await res.json();
-          if (Array.isArray(data) && data.length > 0) {
-            validateCenters(data as Center[], undefined);
-            setCenters(data as Center[]);
-            return;
-          }
-        }
-        // 2차: data/centers.csv 런타임 파싱
-        const csvUrl = new URL("data/centers.csv", absBase).toString();
-        const csvRes = await fetch(csvUrl, { cache: "no-store" });
-        if (csvRes.ok) {
-          const text = await csvRes.text();
-          const parsed = parseCSV(text);
-          if (parsed.length > 0) {
-            validateCenters(parsed, undefined);
-            setCenters(parsed);
-            console.warn("[fallback] loaded data from data/centers.csv at runtime");
-          }
-        } else {
-          console.warn("centers.json and data/centers.csv not found. showing empty map.");
-        }
+        const res = await fetch(publicUrl("sessions.json"), { cache: "no-store" });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!Array.isArray(data)) return;
+        const { sessions: valid, issues } = keepValidSessions(data as ExamSession[]);
+        logIssues(issues, "sessions");
+        setSessions(valid);
       } catch (e) { console.error(e); }
+      finally { setSessionsLoaded(true); }
     })();
-  }, [admin]);
+  }, []);
 
   useEffect(() => {
     if (!mapRef.current || mapObj.current) return;
 
     const map = new maplibregl.Map({
       container: mapRef.current,
-      style: {
-        version: 8,
-        glyphs: "https://demotiles.maplibre.org/font/{fontstack}/{range}.pbf",
-        sources: { osm: { type: "raster", tiles: ["https://tile.openstreetmap.org/{z}/{x}/{y}.png"], tileSize: 256, attribution: "© OpenStreetMap" } },
-        layers: [{ id: "osm", type: "raster", source: "osm" }]
-      },
+      style: buildMapStyle(MAP_STYLE_CONFIG),
       center: [127.06, 37.51], zoom: 11, dragRotate: false
     });
 
@@ -236,63 +540,217 @@ useEffect(() => {
     map.addControl(new maplibregl.NavigationControl({ visualizePitch: false }), "top-right");
     mapObj.current = map;
 
+    // 배경 타일/글리프 로드 실패 감지: 타일이 하나도 안 뜬 채 실패가 이어지면 단색 배경으로 전환
+    let tileLoaded = false, tileErrors = 0, glyphNotified = false;
+    map.on("data", (e: any) => { if (e.dataType === "source" && e.sourceId === BASEMAP_SOURCE && e.tile) tileLoaded = true; });
+    map.on("error", (e: any) => {
+      const url = e?.error?.url as string | undefined;
+      if (e?.sourceId === BASEMAP_SOURCE) {
+        tileErrors++;
+        if (!tileLoaded && tileErrors === 3) {
+          hideBasemap(map);
+          setMapNotice((n) => ({ ...n, tiles: true }));
+        }
+      } else if (!glyphNotified && isGlyphError(url)) {
+        glyphNotified = true;
+        setMapNotice((n) => ({ ...n, glyphs: true }));
+      } else {
+        console.error(e?.error || e);
+      }
+    });
+
     map.on("load", () => {
-      const mask = buildOutsideMask(TARGET_BOUNDS as any);
+      const mask = buildOutsideMask(DISTRICTS);
       map.addSource("mask", { type: "geojson", data: mask as any });
-      map.addLayer({ id: "outside-mask", type: "fill", source: "mask", paint: { "fill-color": "#000", "fill-opacity": 0.25 } });
+      map.addLayer({ id: "outside-mask", type: "fill", source: "mask", filter: ["==", ["get", "role"], "mask"], paint: { "fill-color": "#000", "fill-opacity": 0.25 } });
       map.addLayer({ id: "region-outline", type: "line", source: "mask", filter: ["==", ["get", "role"], "region"], paint: { "line-color": "#2d6de9", "line-width": 2 } });
+      map.addLayer({ id: "region-labels", type: "symbol", source: "mask", filter: ["==", ["get", "role"], "region"], layout: { "text-field": ["get", "name"], "text-font": [MAP_STYLE_CONFIG.fonts.regular], "text-size": 12 }, paint: { "text-color": "#2d6de9", "text-opacity": 0.6, "text-halo-color": "#ffffff", "text-halo-width": 1 } });
 
       // 클러스터 소스/레이어
-      map.addSource("centers", { type: "geojson", data: geojson as any, cluster: true, clusterRadius: 50, clusterMaxZoom: 14 });
+      // 지하철역(선택 표시)
+      map.addSource("stations", { type: "geojson", data: stationsGeojsonRef.current as any });
+      map.addLayer({ id: "stations", type: "circle", source: "stations", layout: { visibility: "none" }, paint: { "circle-radius": 6, "circle-color": "#ffffff", "circle-stroke-color": ["get", "color"], "circle-stroke-width": 3 } });
+      map.addLayer({ id: "station-labels", type: "symbol", source: "stations", layout: { visibility: "none", "text-field": ["get", "name"], "text-font": [MAP_STYLE_CONFIG.fonts.regular], "text-size": 11, "text-offset": [0, 1], "text-anchor": "top" }, paint: { "text-color": "#374151", "text-halo-color": "#ffffff", "text-halo-width": 1 } });
+
+      map.addSource("closed", { type: "geojson", data: closedGeojsonRef.current as any });
+      map.addLayer({ id: "closed-centers", type: "circle", source: "closed", paint: { "circle-radius": 6, "circle-color": "#9ca3af", "circle-opacity": 0.6, "circle-stroke-color": "#ffffff", "circle-stroke-width": 2 } });
+      map.addLayer({ id: "closed-labels", type: "symbol", source: "closed", layout: { "text-field": ["get", "name"], "text-font": [MAP_STYLE_CONFIG.fonts.regular], "text-size": 11, "text-offset": [0, 1], "text-anchor": "top" }, paint: { "text-color": "#9ca3af", "text-halo-color": "#ffffff", "text-halo-width": 1 } });
+
+      map.addSource("centers", { type: "geojson", data: geojsonRef.current as any, cluster: true, clusterRadius: 50, clusterMaxZoom: 14 });
       map.addLayer({ id: "clusters", type: "circle", source: "centers", filter: ["has", "point_count"], paint: {
         "circle-radius": ["step", ["get", "point_count"], 16, 10, 20, 30, 26, 100, 32],
         "circle-color": ["step", ["get", "point_count"], "#88b9f3", 10, "#5e97ef", 30, "#2d6de9"], "circle-opacity": 0.9 } });
-      map.addLayer({ id: "cluster-count", type: "symbol", source: "centers", filter: ["has", "point_count"], layout: { "text-field": ["get", "point_count"], "text-font": ["Noto Sans Regular"], "text-size": 12 }, paint: { "text-color": "#fff" } });
+      map.addLayer({ id: "cluster-count", type: "symbol", source: "centers", filter: ["has", "point_count"], layout: { "text-field": ["get", "point_count"], "text-font": [MAP_STYLE_CONFIG.fonts.regular], "text-size": 12 }, paint: { "text-color": "#fff" } });
 
-      // 단일 포인트: 태그 색상
+      // 단일 포인트: 분류 색상. 여러 분류면 테두리(링)를 두 번째 분류 색으로
       map.addLayer({ id: "unclustered", type: "circle", source: "centers", filter: ["!has", "point_count"], paint: {
-        "circle-radius": 8,
-        "circle-color": ["match", ["get", "examType"], "필기", "#1e88e5", "실기(작업)", "#e53935", "#2bb673"],
-        "circle-stroke-color": "#ffffff", "circle-stroke-width": 2 } });
+        // 목록에서 가리키는 시험장은 크게
+        "circle-radius": ["case", ["boolean", ["feature-state", "hover"], false], 12, ["==", ["get", "category2"], ""], 8, 9],
+        "circle-color": categoryColorExpression("category") as any,
+        "circle-stroke-color": ["case", ["==", ["get", "category2"], ""], "#ffffff", categoryColorExpression("category2", "#ffffff")] as any,
+        "circle-stroke-width": ["case", ["==", ["get", "category2"], ""], 2, 4],
+        // 운영시간 밖이면 흐리게
+        "circle-opacity": ["match", ["get", "open"], "closed", 0.45, 1],
+        "circle-stroke-opacity": ["match", ["get", "open"], "closed", 0.45, 1] } });
+      // 신규/변경 시험장: 마커 오른쪽 위 점
+      map.addLayer({ id: "change-dots", type: "circle", source: "centers", filter: ["all", ["!", ["has", "point_count"]], ["!=", ["get", "change"], ""]], paint: {
+        "circle-radius": 4, "circle-translate": [7, -7],
+        "circle-color": ["match", ["get", "change"], "new", CHANGE_COLORS.new, CHANGE_COLORS.changed],
+        "circle-stroke-color": "#ffffff", "circle-stroke-width": 1.5 } });
+
+      // 근접 모드: 출발지 점 + 선택 시험장까지 선
+      map.addSource("proximity", { type: "geojson", data: proximityGeojsonRef.current as any });
+      map.addLayer({ id: "proximity-line", type: "line", source: "proximity", filter: ["==", ["get", "role"], "line"], paint: { "line-color": "#111827", "line-width": 2, "line-dasharray": [2, 2] } });
+      map.addLayer({ id: "proximity-line-label", type: "symbol", source: "proximity", filter: ["==", ["get", "role"], "line"], layout: { "symbol-placement": "line-center", "text-field": ["get", "label"], "text-font": [MAP_STYLE_CONFIG.fonts.bold], "text-size": 12 }, paint: { "text-halo-color": "#ffffff", "text-halo-width": 2 } });
+      map.addLayer({ id: "proximity-origin", type: "circle", source: "proximity", filter: ["==", ["get", "role"], "origin"], paint: { "circle-radius": 7, "circle-color": "#111827", "circle-stroke-color": "#ffffff", "circle-stroke-width": 3 } });
 
       // 라벨
-      map.addLayer({ id: "labels", type: "symbol", source: "centers", filter: ["!has", "point_count"], layout: { "text-field": ["get", "name"], "text-font": ["Noto Sans Bold"], "text-size": 14, "text-offset": [0, 1.2], "text-anchor": "top" }, paint: { "text-halo-color": "#ffffff", "text-halo-width": 1 } });
+      map.addLayer({ id: "labels", type: "symbol", source: "centers", filter: ["!has", "point_count"], layout: { "text-field": ["get", "name"], "text-font": [MAP_STYLE_CONFIG.fonts.bold], "text-size": 14, "text-offset": [0, 1.2], "text-anchor": "top" }, paint: { "text-halo-color": "#ffffff", "text-halo-width": 1 } });
 
       // 상호작용
       map.on("click", "clusters", (e) => {
         const features = map.queryRenderedFeatures(e.point, { layers: ["clusters"] });
         const clusterId = features[0].properties?.cluster_id as number;
         const source = map.getSource("centers") as maplibregl.GeoJSONSource;
-        source.getClusterExpansionZoom(clusterId, (err, zoom) => { if (err) return; map.easeTo({ center: (features[0].geometry as any).coordinates, zoom }); });
+        source.getClusterExpansionZoom(clusterId, (err, zoom) => { if (err) return; map.easeTo({ center: (features[0].geometry as any).coordinates, zoom: zoom ?? undefined }); });
+      });
+      const popup = new maplibregl.Popup({ closeButton: true, closeOnClick: true, anchor: "bottom", maxWidth: "300px" }).setDOMContent(popupNode);
+      popup.on("close", () => {
+        const closing = popupCenterRef.current;
+        popupCenterRef.current = null;
+        setSelectedId((prev) => (prev === closing ? null : prev));
       });
-      const popup = new maplibregl.Popup({ closeButton: true, closeOnClick: true, anchor: "bottom" });
+      popupRef.current = popup;
       map.on("click", "unclustered", (e) => {
+        if (pickingRef.current) return;
         const f = map.queryRenderedFeatures(e.point, { layers: ["unclustered"] })[0]; if (!f) return;
-        const p = f.properties as any; const coords = (f.geometry as any).coordinates.slice();
-        const html = `<div style="font-family:system-ui;min-width:220px"><div style="font-weight:700;margin-bottom:6px">${p.name}</div><div style="font-size:12px;color:#444">${p.address || ""}</div>${p.phone ? `<div style=\"font-size:12px;color:#444\">☎ ${p.phone}</div>` : ""}${p.hours ? `<div style=\"font-size:12px;color:#444\">⏰ ${p.hours}</div>` : ""}${p.note ? `<div style=\"font-size:12px;color:#444\">📝 ${p.note}</div>` : ""}${p.tags ? `<div style=\"margin-top:6px;font-size:11px;color:#2d6de9\">${p.tags}</div>` : ""}</div>`;
-        popup.setLngLat(coords).setHTML(html).addTo(map);
+        // 마커 클릭은 현재 뷰 유지(지도 이동 없이 팝업만)
+        const id = (f.properties as any).id as string;
+        flownRef.current = id;
+        setSelectedId(id);
+        // 좁은 화면: 목록이 보이도록 시트를 올림(해당 항목으로 스크롤은 선택 effect에서)
+        if (narrowRef.current) setSheetSnap((s) => (s === "peek" ? "half" : s));
+      });
+      // 출발지 지정 모드: 지도 클릭 지점을 출발지로
+      map.on("click", (e) => {
+        if (!pickingRef.current) return;
+        setOrigin({ kind: "map", lng: e.lngLat.lng, lat: e.lngLat.lat });
+        setPickingOrigin(false);
+      });
+      map.on("click", "closed-centers", (e) => {
+        if (pickingRef.current) return;
+        const movedTo = (e.features?.[0]?.properties as any)?.movedTo as string | undefined;
+        if (movedTo) setSelectedId(movedTo);
+      });
+      ["unclustered", "closed-centers"].forEach((layer) => {
+        map.on("mouseenter", layer, () => (map.getCanvas().style.cursor = "pointer"));
+        map.on("mouseleave", layer, () => (map.getCanvas().style.cursor = ""));
       });
-      map.on("mouseenter", "unclustered", () => (map.getCanvas().style.cursor = "pointer"));
-      map.on("mouseleave", "unclustered", () => (map.getCanvas().style.cursor = ""));
 
-      // 초기 범위: 데이터 있으면 데이터로, 없으면 관할 경계
-      if (geojson.features.length > 0) {
-        fitToData(map, geojson.features.map((f) => f.geometry.coordinates as [number, number]));
+      // 지도 뷰 → URL(map=zoom/lat/lng). 히스토리는 늘리지 않고 교체
+      map.on("moveend", () => {
+        const c = map.getCenter();
+        const next = writeUrlState(window.location.search, { view: { zoom: map.getZoom(), lat: c.lat, lng: c.lng } });
+        if (next !== window.location.search) history.replaceState(history.state, "", window.location.pathname + next + window.location.hash);
+      });
+
+      // 초기 범위: 링크에 뷰가 있으면 그대로, 아니면 데이터 → 관할 경계 순
+      const initial = geojsonRef.current;
+      if (initialUrl.view) {
+        map.jumpTo({ center: [initialUrl.view.lng, initialUrl.view.lat], zoom: initialUrl.view.zoom });
+      } else if (initial.features.length > 0) {
+        fitToData(map, initial.features.map((f) => f.geometry.coordinates as [number, number]));
       } else { map.fitBounds(TARGET_BOUNDS, { padding: 20, duration: 0 }); }
+      setMapReady(true);
 
       // 스모크 테스트
       try { runSmokeTests(map); } catch (e) { console.error(e); }
     });
 
     return () => map.remove();
-  }, [TARGET_BOUNDS]);
+  }, []);
+
+  useEffect(() => {
+    proximityGeojsonRef.current = proximityGeojson;
+    const src = mapObj.current?.getSource("proximity") as maplibregl.GeoJSONSource | undefined;
+    src?.setData(proximityGeojson as any);
+  }, [proximityGeojson, mapReady]);
+  useEffect(() => {
+    stationsGeojsonRef.current = stationsGeojson;
+    const map = mapObj.current; if (!map || !mapReady) return;
+    (map.getSource("stations") as maplibregl.GeoJSONSource | undefined)?.setData(stationsGeojson as any);
+    ["stations", "station-labels"].forEach((id) => map.getLayer(id) && map.setLayoutProperty(id, "visibility", showStations ? "visible" : "none"));
+  }, [stationsGeojson, showStations, mapReady]);
+  useEffect(() => {
+    closedGeojsonRef.current = closedGeojson;
+    (mapObj.current?.getSource("closed") as maplibregl.GeoJSONSource | undefined)?.setData(closedGeojson as any);
+  }, [closedGeojson, mapReady]);
+  // 자치구 이름 라벨(마스크 소스의 name/name_en). 시험장·역 라벨은 소스 데이터가 표시 언어를 따름
+  useEffect(() => {
+    const map = mapObj.current; if (!map || !mapReady || !map.getLayer("region-labels")) return;
+    map.setLayoutProperty("region-labels", "text-field", ["get", lang === "en" ? "name_en" : "name"]);
+  }, [lang, mapReady]);
+  useEffect(() => {
+    const canvas = mapObj.current?.getCanvas(); if (!canvas) return;
+    canvas.style.cursor = pickingOrigin ? "crosshair" : "";
+  }, [pickingOrigin]);
 
-  // 데이터 변경 시 소스 갱신 및 뷰 맞춤
+  // 데이터 변경 시 소스 갱신 및 뷰 맞춤(링크로 뷰/시험장이 지정된 첫 로드는 맞추지 않음)
+  // 표시 대상이 같으면(운영 상태만 바뀐 경우 등) 뷰는 그대로
+  const fitKeyRef = useRef("");
   useEffect(() => {
+    geojsonRef.current = geojson;
     const map = mapObj.current; if (!map) return;
     const src = map.getSource("centers") as maplibregl.GeoJSONSource | undefined;
-    if (src) { src.setData(geojson as any); if (geojson.features.length > 0) { fitToData(map, geojson.features.map((f) => f.geometry.coordinates as [number, number])); } }
-  }, [geojson]);
+    if (src) {
+      src.setData(geojson as any);
+      const fitKey = geojson.features.map((f) => f.properties.id).join(",");
+      if (fitKey === fitKeyRef.current) return;
+      fitKeyRef.current = fitKey;
+      if (geojson.features.length > 0) {
+        if (keepViewRef.current) keepViewRef.current = false;
+        else fitToData(map, geojson.features.map((f) => f.geometry.coordinates as [number, number]));
+      }
+    }
+  }, [geojson, mapReady]);
+
+  // 선택 시험장 → 팝업 열기/닫기, 새로 선택된 경우 지도 이동
+  useEffect(() => {
+    const map = mapObj.current, popup = popupRef.current;
+    if (!map || !popup || !mapReady) return;
+    if (!selected) {
+      if (!selectedId) { flownRef.current = null; if (popup.isOpen()) popup.remove(); }
+      return;
+    }
+    const { lng, lat } = selected;
+    popup.setLngLat([lng, lat]);
+    if (!popup.isOpen()) popup.addTo(map);
+    popupCenterRef.current = selected.id;
+    if (flownRef.current !== selected.id) { flownRef.current = selected.id; flyToCenter(lng, lat); }
+  }, [selected, selectedId, mapReady]);
+
+  // 지도 마커 ↔ 목록 동기화: 선택 항목으로 스크롤, 목록 hover/focus → 마커 강조
+  const listRef = useRef<HTMLUListElement | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!selectedId) return;
+    const el = listRef.current?.querySelector<HTMLElement>(`[data-center-id="${CSS.escape(selectedId)}"]`);
+    el?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [selectedId, sheetSnap]);
+  useEffect(() => {
+    const map = mapObj.current; if (!map || !mapReady || !hoveredId) return;
+    const index = filtered.findIndex((c) => c.id === hoveredId);
+    if (index < 0) return;
+    const target = { source: "centers", id: index };
+    map.setFeatureState(target, { hover: true });
+    return () => { if (map.getSource("centers")) map.removeFeatureState(target, "hover"); };
+  }, [hoveredId, filtered, mapReady]);
+
+  // 하단 시트가 가리는 만큼 지도 중심을 위로(가득 찬 시트일 때는 절반 기준)
+  useEffect(() => {
+    const map = mapObj.current; if (!map || !mapReady) return;
+    map.setPadding({ top: 0, left: 0, right: 0, bottom: narrow ? sheetHeight(sheetSnap === "full" ? "half" : sheetSnap) : 0 });
+  }, [narrow, sheetSnap, mapReady]);
 
   const flyToCenter = (lng: number, lat: number) => {
     const map = mapObj.current; if (!map) return;
@@ -303,142 +761,334 @@ useEffect(() => {
   };
 
   // UI
-  return (
-    <div
-  id="layout"
-  style={{
-    position: "relative",
-    height: "100vh",
-    width: "100vw",
-    display: "grid",
-    gridTemplateColumns: sidebarOpen ? "minmax(260px,400px) 1fr" : "0px 1fr",
-    transition: "grid-template-columns .2s ease"
-  }}
->
+  // 사이드바 내용: 넓은 화면은 왼쪽 패널, 좁은 화면은 하단 시트
+  const sidebarBody = (
+    <>
+        <div style={{display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: 8}}>
+          <h1 style={{fontSize: 18, fontWeight: 600}}>{t("app.title")}</h1>
+          <span role="group" aria-label={t("lang.label")} style={{flex: "0 0 auto", display: "inline-flex", border: "1px solid #d1d5db", borderRadius: 9999, overflow: "hidden", marginTop: 4}}>
+            {LANGS.map((l) => (
+              <button key={l} lang={l} onClick={() => changeLang(l)} aria-pressed={lang === l}
+                      style={{fontSize: 11, padding: "2px 8px", border: 0, background: lang === l ? "#111" : "#fff", color: lang === l ? "#fff" : "#374151"}}>
+                {t(`lang.${l}`)}
+              </button>
+            ))}
+          </span>
+        </div>
+        <p style={{fontSize: 13, color: "#666"}}>{t("app.scope")}</p>
+        {admin && (<div style={{display: "inline-flex", alignItems: "center", gap: 6, fontSize: 11, padding: "3px 8px", borderRadius: 9999, background: "#fef3c7", color: "#92400e"}}>{t("app.admin")}</div>)}
+        <OfflineBadge online={online} dataTime={dataTime} now={now} />
 
-      <aside
-  style={{
-    borderRight: "1px solid #e5e7eb",
-    padding: sidebarOpen ? 12 : 0,
-    overflow: "auto",
-    overflowY: "auto",
-    transition: "padding .2s ease",
-  }}
-  aria-hidden={!sidebarOpen}
->
-        <h1 style={{fontSize: 18, fontWeight: 600}}>HRDK 서울강남지사 시험장 안내 [PC화면 권장] /h1>
-        <p style={{fontSize: 13, color: "#666"}}>표시 영역 제한: 강남·서초·송파·강동만.</p>
-        {admin && (<div style={{display: "inline-flex", alignItems: "center", gap: 6, fontSize: 11, padding: "3px 8px", borderRadius: 9999, background: "#fef3c7", color: "#92400e"}}>관리자 모드</div>)}
-
-        {/* 태그 필터 */}
-        <div style={{marginTop: 12, padding: 12, border: "1px solid #e5e7eb", borderRadius: 12}}>
-          <div style={{fontSize: 14, fontWeight: 600}}>태그 필터</div>
-          {allTags.length === 0 ? (
-            <div style={{fontSize: 12, color: "#6b7280"}}>사용 가능한 태그가 없습니다.</div>
-          ) : (
-            <div style={{display: "flex", flexWrap: "wrap", gap: 8, marginTop: 6}}>
-  {allTags.map((t) => {
-    const active = activeTag === t;
-    return (
-      <button
-        key={t}
-        onClick={() => selectTag(t)}
-        style={{
-          fontSize: 12,
-          padding: "4px 8px",
-          borderRadius: 9999,
-          border: "1px solid " + (active ? "#111" : "#d1d5db"),
-          background: active ? "#111" : "#fff",
-          color: active ? "#fff" : "#374151"
-        }}
-      >
-        {t}
-      </button>
-    );
-  })}
-  {activeTag && (
-    <button onClick={clearTag} style={{fontSize: 12, textDecoration: "underline"}}>
-      초기화
-    </button>
-  )}
+        {/* 가까운 시험장 찾기 */}
+        <Collapsible title={t("origin.title")} defaultOpen={!narrow}>
+          <div style={{display: "flex", flexWrap: "wrap", gap: 8}}>
+            <button onClick={useMyLocation} style={{fontSize: 12, padding: "4px 8px", borderRadius: 9999, border: "1px solid #d1d5db", background: "#fff"}}>{t("origin.myLocation")}</button>
+            <button onClick={() => setPickingOrigin((v) => !v)} aria-pressed={pickingOrigin}
+                    style={{fontSize: 12, padding: "4px 8px", borderRadius: 9999, border: "1px solid " + (pickingOrigin ? "#111" : "#d1d5db"), background: pickingOrigin ? "#111" : "#fff", color: pickingOrigin ? "#fff" : "#374151"}}>
+              {t(pickingOrigin ? "origin.clickMap" : "origin.pickOnMap")}
+            </button>
+            <select value={origin?.stationId ?? ""} onChange={(e) => selectStation(e.target.value)}
+                    style={{fontSize: 12, border: "1px solid #d1d5db", borderRadius: 8, padding: "4px 6px"}}>
+              <option value="">{t("origin.selectStation")}</option>
+              {STATIONS.map((st) => <option key={st.id} value={st.id}>{stationLabel(st.name, lang)} ({st.lines.join("·")})</option>)}
+            </select>
+          </div>
+          {geoError && <div style={{fontSize: 12, color: "#dc2626", marginTop: 6}}>{geoError.kind === "unsupported" ? t("origin.unsupported") : t("origin.failed", { message: geoError.message })}</div>}
+          {origin && (
+            <div style={{fontSize: 11, color: "#6b7280", marginTop: 6}}>
+              {t("origin.summary", { label: originLabel })}{" "}
+              <button onClick={() => setOrigin(null)} style={{fontSize: 11, textDecoration: "underline"}}>{t("common.clear")}</button>
+            </div>
+          )}
+        </Collapsible>
 
+        {/* 시험 일정 */}
+        <Collapsible title={t("sessions.title")} defaultOpen={!narrow}>
+          <div style={{display: "flex", gap: 8}}>
+            <input type="date" value={examDate} onChange={(e) => setExamDate(e.target.value)}
+                   style={{flex: "0 0 auto", border: "1px solid #d1d5db", borderRadius: 8, padding: "4px 6px", fontSize: 12}} />
+            <input value={qualQuery} onChange={(e) => setQualQuery(e.target.value)} placeholder={t("sessions.qualPlaceholder")} list="qualification-list"
+                   style={{flex: 1, minWidth: 0, border: "1px solid #d1d5db", borderRadius: 8, padding: "4px 6px", fontSize: 12}} />
+            <datalist id="qualification-list">{qualifications.map((q) => <option key={q} value={q} />)}</datalist>
+          </div>
+          {sessionFilterOn && (
+            <div style={{fontSize: 11, color: "#6b7280", marginTop: 6}}>
+              {t("sessions.summary", { sessions: matchedSessions.length, centers: sessionsByCenter.size })}{" "}
+              <button onClick={() => { setExamDate(""); setQualQuery(""); }} style={{fontSize: 11, textDecoration: "underline"}}>{t("common.reset")}</button>
             </div>
           )}
-          <div style={{fontSize: 11, color: "#6b7280", marginTop: 6}}>필기: 파란색, 실기(작업): 빨간색, 기타: 초록색</div>
-        </div>
+        </Collapsible>
+
+        {/* 다중 조건 필터: 항목 안은 OR/AND, 항목끼리는 AND */}
+        <Collapsible title={t(filtersActive ? "filters.titleActive" : "filters.title")} defaultOpen={!narrow}>
+          {filtersActive && <button onClick={clearFacets} style={{fontSize: 12, textDecoration: "underline"}}>{t("filters.reset")}</button>}
+          {FACETS.map((f) => {
+            const options = f.options(centers, lang);
+            const counts = facetOptionCounts.get(f.id)!;
+            const state = facets[f.id];
+            if (options.length === 0) return null;
+            return (
+              <div key={f.id} style={{marginTop: 8}}>
+                <div style={{display: "flex", alignItems: "center", gap: 6, fontSize: 12, color: "#374151"}}>
+                  <span style={{fontWeight: 600}}>{t(f.label)}</span>
+                  {f.multi && (
+                    <span role="group" aria-label={t("filters.combine", { facet: t(f.label) })} style={{display: "inline-flex", border: "1px solid #d1d5db", borderRadius: 9999, overflow: "hidden"}}>
+                      {(["or", "and"] as const).map((m) => (
+                        <button key={m} onClick={() => changeFacetMode(f.id, m)} aria-pressed={state.mode === m}
+                                title={t(m === "or" ? "filters.or" : "filters.and")}
+                                style={{fontSize: 10, padding: "1px 6px", border: 0, background: state.mode === m ? "#111" : "#fff", color: state.mode === m ? "#fff" : "#6b7280"}}>
+                          {m.toUpperCase()}
+                        </button>
+                      ))}
+                    </span>
+                  )}
+                </div>
+                <div style={{display: "flex", flexWrap: "wrap", gap: 6, marginTop: 4}}>
+                  {options.map((o) => {
+                    const active = state.values.includes(o.value);
+                    const n = counts.get(o.value) || 0;
+                    return (
+                      <button key={o.value} onClick={() => toggleFacet(f.id, o.value)} aria-pressed={active}
+                              style={{fontSize: 12, padding: "4px 8px", borderRadius: 9999, border: "1px solid " + (active ? "#111" : "#d1d5db"), background: active ? "#111" : "#fff", color: active ? "#fff" : "#374151", opacity: active || n > 0 ? 1 : 0.45}}>
+                        {o.label} ({n})
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+          <div style={{marginTop: 8}}>
+            <div style={{fontSize: 12, fontWeight: 600, color: "#374151"}}>{t("hours.title")}</div>
+            <button onClick={() => setOpenNow((v) => !v)} aria-pressed={openNow}
+                    style={{marginTop: 4, fontSize: 12, padding: "4px 8px", borderRadius: 9999, border: "1px solid " + (openNow ? "#111" : "#d1d5db"), background: openNow ? "#111" : "#fff", color: openNow ? "#fff" : "#374151"}}>
+              {t("hours.openNow")}
+            </button>
+          </div>
+          <div style={{marginTop: 8}}>
+            <div style={{fontSize: 12, fontWeight: 600, color: "#374151"}}>{t("transit.title")}</div>
+            <div style={{display: "flex", flexWrap: "wrap", alignItems: "center", gap: 6, marginTop: 4}}>
+              {WALK_LIMITS.map((m) => {
+                const active = walkLimit === m;
+                return (
+                  <button key={m} onClick={() => setWalkLimit(active ? null : m)} aria-pressed={active}
+                          style={{fontSize: 12, padding: "4px 8px", borderRadius: 9999, border: "1px solid " + (active ? "#111" : "#d1d5db"), background: active ? "#111" : "#fff", color: active ? "#fff" : "#374151"}}>
+                    {t("transit.within", { minutes: m })}
+                  </button>
+                );
+              })}
+              <label style={{fontSize: 12, color: "#374151", display: "inline-flex", alignItems: "center", gap: 4}}>
+                <input type="checkbox" checked={showStations} onChange={(e) => setShowStations(e.target.checked)} />
+                {t("transit.showStations")}
+              </label>
+            </div>
+          </div>
+          <Legend />
+        </Collapsible>
+
+        {/* 게시 서비스 로그인·게시 (?admin) */}
+        {wantsAdmin && (
+          <AdminPanel user={adminUser} centers={centers} dirty={centers !== baseline} onUser={setAdminUser} onPublished={reloadData} />
+        )}
 
         {/* CSV 업로드 (관리자 전용) */}
         {admin && (
-          <div style={{marginTop: 12, padding: 12, border: "1px solid #e5e7eb", borderRadius: 12, background: "#f9fafb"}}>
-            <div style={{fontSize: 14, fontWeight: 600}}>CSV 업로드</div>
+          <Collapsible title={t("csv.title")}>
             <input type="file" accept=".csv,text/csv" onChange={(e) => { const f = e.target.files?.[0]; if (f) onUploadCSV(f); }} />
-            <div style={{fontSize: 12, color: "#6b7280"}}>필수 헤더: id,name,lat,lng | 선택: address,phone,hours,note,tags</div>
+            <div style={{fontSize: 12, color: "#6b7280"}}>{t("csv.headers", { required: REQUIRED_COLUMNS.join(","), optional: OPTIONAL_COLUMNS.join(",") })}</div>
             {csvError && <div style={{fontSize: 12, color: "#dc2626"}}>{csvError}</div>}
+            <IssueTable issues={csvIssues} />
             <details>
-              <summary style={{fontSize: 12, textDecoration: "underline", cursor: "pointer"}}>CSV 텍스트로 붙여넣기</summary>
+              <summary style={{fontSize: 12, textDecoration: "underline", cursor: "pointer"}}>{t("csv.paste")}</summary>
               <div style={{marginTop: 8}}>
                 <textarea onChange={(e) => onPasteCSV(e.target.value)} placeholder="id,name,address,lat,lng,phone,hours,note,tags ..." style={{width: "100%", height: 120, border: "1px solid #d1d5db", borderRadius: 8, padding: 8, fontSize: 13}} />
               </div>
             </details>
-          </div>
+          </Collapsible>
+        )}
+
+        {/* 시험장 편집 (관리자 전용) */}
+        {admin && (
+          <CenterEditor map={mapReady ? mapObj.current : null} centers={centers} baseline={baseline} onChange={setCenters} onSelect={setSelectedId} />
         )}
 
         {/* 검색 */}
-        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="이름, 주소, 메모, 태그 검색"
-               style={{width: "100%", border: "1px solid #d1d5db", borderRadius: 16, padding: "6px 10px", fontSize: 13, marginTop: 12}} />
-        <div style={{fontSize: 12, color: "#6b7280"}}>총 {filtered.length}개 표시{centers.length===0?" (데이터 없음)":""}</div>
+        <div style={{position: "relative", marginTop: 12}}>
+          <input value={query} placeholder={t("search.placeholder")}
+                 role="combobox" aria-expanded={suggestOpen && suggestions.length > 0} aria-autocomplete="list"
+                 onChange={(e) => { setQuery(e.target.value); setSuggestOpen(true); setSuggestIndex(0); }}
+                 onFocus={() => setSuggestOpen(true)}
+                 onBlur={() => setSuggestOpen(false)}
+                 onKeyDown={onSearchKeyDown}
+                 style={{width: "100%", border: "1px solid #d1d5db", borderRadius: 16, padding: "6px 10px", fontSize: 13}} />
+          {suggestOpen && suggestions.length > 0 && (
+            <ul role="listbox" style={{position: "absolute", zIndex: 10, top: "100%", left: 0, right: 0, marginTop: 4, background: "#fff", border: "1px solid #d1d5db", borderRadius: 12, boxShadow: "0 4px 12px rgba(0,0,0,.12)", listStyle: "none", padding: 4}}>
+              {suggestions.map((h, i) => (
+                <li key={h.item.id} role="option" aria-selected={i === suggestIndex}
+                    // blur보다 먼저 선택되도록 mousedown 사용
+                    onMouseDown={(e) => { e.preventDefault(); chooseSuggestion(h.item); }}
+                    onMouseEnter={() => setSuggestIndex(i)}
+                    style={{padding: "6px 8px", borderRadius: 8, cursor: "pointer", background: i === suggestIndex ? "#eff6ff" : "transparent"}}>
+                  <div style={{fontSize: 13, fontWeight: 600}}><Highlight text={localized(h.item, "name", lang)} ranges={h.ranges.name} /></div>
+                  <div style={{fontSize: 11, color: "#6b7280"}}>{h.item.district && `[${districtLabel(h.item.district, lang)}] `}<Highlight text={localized(h.item, "address", lang)} ranges={h.ranges.address} /></div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div style={{display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, fontSize: 12, color: "#6b7280"}}>
+          <span>{t("list.count", { count: filtered.length })}{centers.length===0?t("list.noData"):""}</span>
+          {filtered.length > 0 && <button onClick={() => startPrint(filtered)} style={{fontSize: 12, textDecoration: "underline"}}>{t("print.all", { count: filtered.length })}</button>}
+        </div>
+        {filtersActive && (
+          <div style={{display: "flex", flexWrap: "wrap", gap: 4, marginTop: 6}}>
+            {facetChips.map((chip) => (
+              <button key={`${chip.facet.id}:${chip.value}`} onClick={() => toggleFacet(chip.facet.id, chip.value)} aria-label={t("filters.remove", { facet: t(chip.facet.label), value: chip.label })}
+                      style={{fontSize: 11, padding: "2px 8px", borderRadius: 9999, border: "1px solid #111827", background: "#f3f4f6", color: "#111827"}}>
+                {t(chip.facet.label)}: {chip.label}{chip.facet.multi && facets[chip.facet.id].values.length > 1 ? ` (${facets[chip.facet.id].mode.toUpperCase()})` : ""} ✕
+              </button>
+            ))}
+            {openNow && (
+              <button onClick={() => setOpenNow(false)} aria-label={t("hours.removeOpenNow")}
+                      style={{fontSize: 11, padding: "2px 8px", borderRadius: 9999, border: "1px solid #111827", background: "#f3f4f6", color: "#111827"}}>
+                {t("hours.openNow")} ✕
+              </button>
+            )}
+            {walkLimit !== null && (
+              <button onClick={() => setWalkLimit(null)} aria-label={t("transit.removeWalk")}
+                      style={{fontSize: 11, padding: "2px 8px", borderRadius: 9999, border: "1px solid #111827", background: "#f3f4f6", color: "#111827"}}>
+                {t("transit.chip", { minutes: walkLimit })} ✕
+              </button>
+            )}
+            <button onClick={clearFacets} style={{fontSize: 11, textDecoration: "underline"}}>{t("filters.clearAll")}</button>
+          </div>
+        )}
 
         
+        {/* 선택 시험장 상세 */}
+        {detailProps && (
+          <div style={{marginTop: 8, padding: 12, border: "1px solid #111827", borderRadius: 12}}>
+            <div style={{display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 11, color: "#6b7280", marginBottom: 4}}>
+              <span>{t("detail.selected")}</span>
+              <button onClick={() => setSelectedId(null)} style={{fontSize: 11, textDecoration: "underline"}}>{t("common.close")}</button>
+            </div>
+            <CenterDetail {...detailProps} />
+          </div>
+        )}
+
         {/* 목록 */}
-        <ul style={{marginTop: 8, display: "flex", flexDirection: "column", gap: 8, overflow: "auto", maxHeight: "calc(100vh - 340px)", paddingRight: 4}}>
+        <ul ref={listRef} style={{marginTop: 8, display: "flex", flexDirection: "column", gap: 8, paddingRight: 4, ...(narrow ? {} : {overflow: "auto", maxHeight: "calc(100vh - 340px)"})}}>
           {filtered.map((c) => (
-            <li key={c.id} style={{border: "1px solid #e5e7eb", borderRadius: 12, padding: 12}}>
+            <li key={c.id} data-center-id={c.id} tabIndex={0} aria-current={selectedId === c.id || undefined}
+                onMouseEnter={() => setHoveredId(c.id)} onMouseLeave={() => setHoveredId(null)}
+                onFocus={() => setHoveredId(c.id)} onBlur={() => setHoveredId(null)}
+                onKeyDown={(e) => { if (e.key === "Enter" && e.target === e.currentTarget) setSelectedId(c.id); }}
+                style={{border: "1px solid " + (selectedId === c.id ? "#111827" : "#e5e7eb"), background: selectedId === c.id ? "#f9fafb" : hoveredId === c.id ? "#fcfcfd" : "#fff", borderRadius: 12, padding: 12, outlineOffset: 2}}>
               <div style={{display: "flex", justifyContent: "space-between", alignItems: "center"}}>
-                <div style={{fontWeight: 600, fontSize: 14}}>{c.name}</div>
-                <button onClick={() => flyToCenter(c.lng, c.lat)} style={{fontSize: 12, textDecoration: "underline", opacity: 0.8}}>지도이동</button>
+                <div style={{fontWeight: 600, fontSize: 14}}><Highlight text={localized(c, "name", lang)} ranges={hitById.get(c.id)?.ranges.name} /> <OpenBadge hours={c.openingHours} now={now} /> <ChangeBadge info={meta?.changes[c.id]} /></div>
+                <button onClick={() => { setSelectedId(c.id); flyToCenter(c.lng, c.lat); if (narrow && sheetSnap === "full") setSheetSnap("half"); }} style={{fontSize: 12, textDecoration: "underline", opacity: 0.8}}>{t("list.flyTo")}</button>
               </div>
-              <div style={{fontSize: 12, color: "#4b5563", marginTop: 4}}>{c.address}</div>
-              <div style={{fontSize: 11, color: "#6b7280", marginTop: 4}}>{c.note}</div>
+              <div style={{marginTop: 4, display: "flex", flexWrap: "wrap", gap: 4}}>{categoriesOf(c).map((cat) => <CategoryBadge key={cat.id} category={cat} />)}</div>
+              {(c.transit || []).length > 0 && <div style={{marginTop: 4}}><TransitBadges transit={c.transit} compact /></div>}
+              {examDate && c.openingHours && <div style={{marginTop: 2}}><ExamDayHours hours={c.openingHours} date={examDate} /></div>}
+              {distances.has(c.id) && <div style={{fontSize: 12, color: "#111827", marginTop: 4}}>{t("list.distance", { origin: originLabel, distance: formatDistance(distances.get(c.id)!) })}</div>}
+              <div style={{fontSize: 12, color: "#4b5563", marginTop: 4}}>{c.district && <span style={{color: "#2d6de9", marginRight: 4}}>[{districtLabel(c.district, lang)}]</span>}<Highlight text={localized(c, "address", lang)} ranges={hitById.get(c.id)?.ranges.address} /></div>
+              <div style={{fontSize: 11, color: "#6b7280", marginTop: 4}}><Highlight text={localized(c, "note", lang)} ranges={hitById.get(c.id)?.ranges.note} /></div>
+              {sessionFilterOn && (sessionsByCenter.get(c.id) || []).map((s, i) => (
+                <div key={i} style={{fontSize: 11, color: "#1d4ed8", marginTop: 2}}>📅 {s.date} {s.slot} · {s.qualification} ({sessionKindLabel(s.kind, lang)})</div>
+              ))}
               <div style={{marginTop: 4, display: "flex", flexWrap: "wrap", gap: 4}}>{(c.tags || []).map((tag) => (
-                <span key={tag} style={{fontSize: 10, background: "#eff6ff", color: "#1d4ed8", padding: "2px 8px", borderRadius: 9999}}>{tag}</span>
+                <span key={tag} style={{fontSize: 10, background: "#eff6ff", color: "#1d4ed8", padding: "2px 8px", borderRadius: 9999}}>{tagLabel(tag, lang)}</span>
               ))}</div>
             </li>
           ))}
-          {filtered.length === 0 && (<li style={{fontSize: 12, color: "#6b7280"}}>표시할 데이터가 없습니다.</li>)}
+          {filtered.length === 0 && (<li style={{fontSize: 12, color: "#6b7280"}}>{t("list.empty")}</li>)}
         </ul>
+        <ClosedCenters closed={meta?.closed ?? []} centers={centers} onGoTo={(c) => setSelectedId(c.id)} />
 
-        <div style={{paddingTop: 8, fontSize: 11, color: "#6b7280"}}>지도 타일: OpenStreetMap. 텍스트 라벨: MapLibre demo glyphs. 운영 전환 시 자체 타일/글리프 서버 권장.
+        <div style={{paddingTop: 8, fontSize: 11, color: "#6b7280"}}>{t("app.footer.sources", { tiles: mapSources.tiles, glyphs: mapSources.glyphs })}{mapSources.production ? "" : t("app.footer.selfHostHint")}
         <br />
         <br />
-        한국산업인력공단 서울강남지사 자격시험부 작성 2025-10-24</div>
-      </aside>
-      
-      {/* layout 안, aside와 map div 사이 어딘가에 추가 */}
-<button
-  onClick={() => setSidebarOpen(v => !v)}
-  aria-pressed={sidebarOpen}
-  aria-label={sidebarOpen ? "사이드바 닫기" : "사이드바 열기"}
+        <SaveMapButton />
+        {meta && <>{t("app.footer.updated", { version: meta.version, date: new Date(meta.generatedAt).toLocaleString(dateLocale(lang)) })}<br /></>}
+        {t("app.footer.credit")}</div>
+    </>
+  );
+
+  return (
+    <I18nContext.Provider value={i18n}>
+    <div
+  id="layout"
+  style={narrow ? {position: "relative", height: "100dvh", width: "100vw"} : {
+    position: "relative",
+    height: "100vh",
+    width: "100vw",
+    display: "grid",
+    gridTemplateColumns: sidebarOpen ? "minmax(260px,400px) 1fr" : "0px 1fr",
+    transition: "grid-template-columns .2s ease"
+  }}
+>
+
+      {!narrow && (
+      <aside
   style={{
-    position: "absolute",
-    top: 10,
-    left: sidebarOpen ? 340 : 10, // 열렸을 때는 사이드바 경계 근처
-    zIndex: 5,
-    border: 0,
-    borderRadius: 9999,
-    padding: "8px 10px",
-    background: "#111",
-    color: "#fff",
-    fontSize: 14,
-    lineHeight: 1,
-    boxShadow: "0 6px 18px rgba(0,0,0,.2)",
-    cursor: "pointer",
-    transition: "left .2s ease"
+    borderRight: "1px solid #e5e7eb",
+    padding: sidebarOpen ? 12 : 0,
+    overflow: "auto",
+    overflowY: "auto",
+    transition: "padding .2s ease",
   }}
+  aria-hidden={!sidebarOpen}
 >
-  {sidebarOpen ? "◀︎" : "▶︎"}
-</button>
+        {sidebarBody}
+      </aside>
+      )}
+
+      <div style={{position: "relative", height: "100%", width: "100%"}}>
+        <div ref={mapRef} style={{height: "100%", width: "100%"}} />
+        {/* 사이드바 토글: 지도 영역 왼쪽 위(사이드바 폭과 무관) */}
+        {!narrow && (
+        <button
+          onClick={() => setSidebarOpen(v => !v)}
+          aria-pressed={sidebarOpen}
+          aria-label={t(sidebarOpen ? "sidebar.close" : "sidebar.open")}
+          style={{
+            position: "absolute",
+            top: 10,
+            left: 10,
+            zIndex: 5,
+            border: 0,
+            borderRadius: 9999,
+            padding: "8px 10px",
+            background: "#111",
+            color: "#fff",
+            fontSize: 14,
+            lineHeight: 1,
+            boxShadow: "0 6px 18px rgba(0,0,0,.2)",
+            cursor: "pointer",
+          }}
+        >
+          {sidebarOpen ? "◀︎" : "▶︎"}
+        </button>
+        )}
+        {detailProps && createPortal(<CenterDetail {...detailProps} compact />, popupNode)}
+        {printJob && <PrintSheet pages={printJob.pages} total={printJob.total} ready={printJob.ready} onPrint={() => window.print()} onClose={closePrint} />}
+        {(mapNotice.tiles || mapNotice.glyphs) && (
+          <div role="status" style={{position: "absolute", left: "50%", bottom: 28, transform: "translateX(-50%)", maxWidth: "min(520px, 90%)", zIndex: 4, background: "#fff7ed", color: "#9a3412", border: "1px solid #fed7aa", borderRadius: 12, padding: "8px 12px", fontSize: 12, boxShadow: "0 6px 18px rgba(0,0,0,.12)"}}>
+            {mapNotice.tiles && <div>{t("notice.tiles")}</div>}
+            {mapNotice.glyphs && <div>{t("notice.glyphs")}</div>}
+            <button onClick={() => setMapNotice({})} style={{fontSize: 11, textDecoration: "underline", marginTop: 4}}>{t("common.close")}</button>
+          </div>
+        )}
+      </div>
 
-      <div ref={mapRef} style={{height: "100%", width: "100%"}} />
+      {narrow && (
+        <BottomSheet snap={sheetSnap} onSnapChange={setSheetSnap}
+                     summary={<div style={{fontSize: 13, fontWeight: 600}}>{t("sheet.summary", { count: filtered.length })}{selected ? ` · ${localized(selected, "name", lang)}` : ""}{filtersActive ? ` · ${t("sheet.filtersOn")}` : ""}</div>}>
+          {sidebarBody}
+        </BottomSheet>
+      )}
     </div>
+    </I18nContext.Provider>
   );
 }
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { centersToCSV, type Center } from "../lib/centers";
+import type { IngestIssue } from "../lib/csv";
+import { dateLocale, useI18n } from "../lib/i18n";
+import { getHistory, login, logout, publishCSV, rollbackTo, type ApiResult, type PublishedVersion } from "../lib/publishApi";
+import { IssueTable } from "./IssueTable";
+
+// =========================
+// 관리자 로그인·게시 패널(게시 서비스 server/api.ts 사용)
+// - 로그인 전: 아이디/비밀번호
+// - 로그인 후: 현재 목록 게시, 게시 이력과 되돌리기
+// =========================
+const inputStyle = { width: "100%", border: "1px solid #d1d5db", borderRadius: 6, padding: "4px 6px", fontSize: 12 } as const;
+const buttonStyle = { fontSize: 12, padding: "4px 8px", borderRadius: 8, border: "1px solid #d1d5db", background: "#fff" } as const;
+
+export function AdminPanel({
+  user,
+  centers,
+  dirty,
+  onUser,
+  onPublished,
+}: {
+  user: string | null;
+  centers: Center[];
+  dirty: boolean; // 불러온 데이터와 달라졌는지
+  onUser: (user: string | null) => void;
+  onPublished: () => void; // 게시·되돌리기 후 공개 데이터 다시 불러오기
+}) {
+  const { lang, t } = useI18n();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [issues, setIssues] = useState<IngestIssue[]>([]);
+  const [versions, setVersions] = useState<PublishedVersion[]>([]);
+
+  const loadHistory = async () => {
+    const r = await getHistory();
+    if (r.ok) setVersions(r.data.versions.slice().reverse());
+    else if (r.status === 401) onUser(null);
+  };
+  useEffect(() => { if (user) loadHistory(); else setVersions([]); }, [user]);
+
+  const errorText = (r: Extract<ApiResult<unknown>, { ok: false }>) =>
+    t(`admin.error.${r.code}` as const, { count: (r.issues || []).filter((i) => i.level === "error").length });
+  const formatTime = (iso: string) => new Date(iso).toLocaleString(dateLocale(lang));
+
+  // 요청 공통: 진행 중 표시, 오류·검증 결과 반영
+  const run = async (job: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try { await job(); } finally { setBusy(false); }
+  };
+
+  const submitLogin = () => run(async () => {
+    const r = await login(username.trim(), password);
+    setPassword("");
+    if (r.ok) { onUser(r.data.user); return; }
+    setError(errorText(r));
+  });
+
+  const submitLogout = () => run(async () => {
+    await logout();
+    onUser(null);
+  });
+
+  const publish = () => {
+    if (!window.confirm(t("admin.confirmPublish", { count: centers.length }))) return;
+    run(async () => {
+      const r = await publishCSV(centersToCSV(centers), message);
+      setIssues(r.ok ? r.data.issues : r.issues ?? []);
+      if (!r.ok) { setError(errorText(r)); if (r.status === 401) onUser(null); return; }
+      setNotice(t("admin.published", { version: r.data.version.version }));
+      setMessage("");
+      await loadHistory();
+      onPublished();
+    });
+  };
+
+  const rollback = (v: PublishedVersion) => {
+    if (!window.confirm(t("admin.confirmRollback", { version: v.version, date: formatTime(v.publishedAt) }))) return;
+    run(async () => {
+      const r = await rollbackTo(v.version);
+      setIssues(r.ok ? r.data.issues : r.issues ?? []);
+      if (!r.ok) { setError(errorText(r)); if (r.status === 401) onUser(null); return; }
+      setNotice(t("admin.rolledBack", { from: v.version, version: r.data.version.version }));
+      await loadHistory();
+      onPublished();
+    });
+  };
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, border: "1px solid #e5e7eb", borderRadius: 12, background: "#f9fafb" }}>
+      <div style={{ fontSize: 14, fontWeight: 600 }}>{t("admin.title")}</div>
+
+      {!user ? (
+        <form onSubmit={(e) => { e.preventDefault(); submitLogin(); }} style={{ display: "grid", gap: 6, marginTop: 6 }}>
+          <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder={t("admin.username")} autoComplete="username" style={inputStyle} />
+          <input value={password} onChange={(e) => setPassword(e.target.value)} placeholder={t("admin.password")} type="password" autoComplete="current-password" style={inputStyle} />
+          <button type="submit" disabled={busy || !username.trim() || !password} style={buttonStyle}>{t("admin.login")}</button>
+        </form>
+      ) : (
+        <>
+          <div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 6, fontSize: 12, color: "#374151" }}>
+            <span style={{ flex: 1 }}>{t("admin.loggedIn", { user })}</span>
+            <button onClick={submitLogout} disabled={busy} style={buttonStyle}>{t("admin.logout")}</button>
+          </div>
+          <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+            <input value={message} onChange={(e) => setMessage(e.target.value)} placeholder={t("admin.message")} style={{ ...inputStyle, flex: 1 }} />
+            <button onClick={publish} disabled={busy || centers.length === 0} style={{ ...buttonStyle, background: dirty ? "#2563eb" : "#fff", color: dirty ? "#fff" : undefined }}>{t("admin.publish")}</button>
+          </div>
+          {!dirty && <div style={{ marginTop: 4, fontSize: 11, color: "#6b7280" }}>{t("admin.unchanged")}</div>}
+        </>
+      )}
+
+      {busy && <div style={{ marginTop: 6, fontSize: 12, color: "#6b7280" }}>{t("admin.busy")}</div>}
+      {error && <div style={{ marginTop: 6, fontSize: 12, color: "#dc2626" }}>{error}</div>}
+      {notice && <div style={{ marginTop: 6, fontSize: 12, color: "#047857" }}>{notice}</div>}
+      <IssueTable issues={issues} />
+
+      {user && versions.length > 0 && (
+        <details style={{ marginTop: 8 }}>
+          <summary style={{ fontSize: 12, cursor: "pointer" }}>{t("admin.history", { count: versions.length })}</summary>
+          <ul style={{ listStyle: "none", padding: 0, margin: "6px 0 0", display: "grid", gap: 4 }}>
+            {versions.map((v, i) => (
+              <li key={v.version} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div>
+                    <b>v{v.version}</b> · {formatTime(v.publishedAt)} · {v.user} · {t("admin.records", { count: v.records })}
+                    {i === 0 && <span style={{ marginLeft: 4, color: "#047857" }}>{t("admin.current")}</span>}
+                  </div>
+                  {(v.rollbackOf || v.message) && (
+                    <div style={{ color: "#6b7280", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                      {v.rollbackOf ? t("admin.rollbackOf", { version: v.rollbackOf }) : v.message}
+                    </div>
+                  )}
+                </div>
+                {i > 0 && <button onClick={() => rollback(v)} disabled={busy} style={buttonStyle}>{t("admin.rollback")}</button>}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
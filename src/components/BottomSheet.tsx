@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "../lib/i18n";
+
+// =========================
+// 모바일 하단 시트: peek(요약) / half / full 세 단계
+// - 손잡이를 끌어 높이 조절, 놓으면 가까운 단계로 맞춤
+// - 손잡이 탭(클릭)·Enter는 다음 단계로 순환
+// =========================
+export type SheetSnap = "peek" | "half" | "full";
+
+const SNAPS: SheetSnap[] = ["peek", "half", "full"];
+const PEEK_PX = 120;
+
+// 단계별 시트 높이(px)
+export function sheetHeight(snap: SheetSnap, viewport = window.innerHeight): number {
+  if (snap === "peek") return PEEK_PX;
+  if (snap === "half") return Math.round(viewport * 0.5);
+  return Math.round(viewport * 0.92);
+}
+
+export function BottomSheet({
+  snap,
+  onSnapChange,
+  summary,
+  children,
+}: {
+  snap: SheetSnap;
+  onSnapChange: (snap: SheetSnap) => void;
+  summary: React.ReactNode; // peek 상태에서도 보이는 한 줄
+  children: React.ReactNode;
+}) {
+  const { t } = useI18n();
+  const [dragHeight, setDragHeight] = useState<number | null>(null);
+  const [viewport, setViewport] = useState(() => window.innerHeight);
+  const drag = useRef<{ startY: number; startHeight: number; moved: boolean } | null>(null);
+
+  useEffect(() => {
+    const onResize = () => setViewport(window.innerHeight);
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+
+  const height = dragHeight ?? sheetHeight(snap, viewport);
+  const cycle = () => onSnapChange(SNAPS[(SNAPS.indexOf(snap) + 1) % SNAPS.length]);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    (e.target as Element).setPointerCapture(e.pointerId);
+    drag.current = { startY: e.clientY, startHeight: height, moved: false };
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current; if (!d) return;
+    const dy = d.startY - e.clientY;
+    if (Math.abs(dy) > 4) d.moved = true;
+    if (d.moved) setDragHeight(Math.max(PEEK_PX, Math.min(sheetHeight("full", viewport), d.startHeight + dy)));
+  };
+  const onPointerUp = () => {
+    const d = drag.current; drag.current = null;
+    if (!d) return;
+    if (!d.moved) { cycle(); return; }
+    const h = dragHeight ?? d.startHeight;
+    const nearest = SNAPS.reduce((a, b) => (Math.abs(sheetHeight(b, viewport) - h) < Math.abs(sheetHeight(a, viewport) - h) ? b : a));
+    setDragHeight(null);
+    onSnapChange(nearest);
+  };
+
+  return (
+    <section
+      aria-label={t("sheet.label")}
+      style={{
+        position: "fixed", left: 0, right: 0, bottom: 0, zIndex: 20, height,
+        display: "flex", flexDirection: "column",
+        background: "#fff", borderRadius: "16px 16px 0 0", boxShadow: "0 -6px 24px rgba(0,0,0,.18)",
+        transition: dragHeight === null ? "height .2s ease" : undefined,
+      }}
+    >
+      <div
+        role="button"
+        tabIndex={0}
+        aria-label={t("sheet.resize", { state: t(`sheet.${snap}`) })}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={() => { drag.current = null; setDragHeight(null); }}
+        onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); cycle(); } }}
+        style={{ padding: "8px 16px 6px", cursor: "grab", touchAction: "none", userSelect: "none" }}
+      >
+        <div style={{ width: 40, height: 4, borderRadius: 9999, background: "#d1d5db", margin: "0 auto 6px" }} />
+        {summary}
+      </div>
+      <div style={{ flex: 1, overflowY: "auto", padding: "0 12px 12px", overscrollBehavior: "contain" }}>{children}</div>
+    </section>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import type { Center } from "../lib/centers";
+import { sessionKindLabel, type ExamSession } from "../lib/sessions";
+import { categoriesOf } from "../lib/categories";
+import { localized, useI18n } from "../lib/i18n";
+import { tagLabel } from "../lib/tags";
+import { CategoryBadge } from "./Legend";
+import { TransitBadges } from "./TransitBadges";
+import { ExamDayHours, HoursTable, OpenBadge } from "./HoursTable";
+
+// 시험장 상세: 지도 팝업과 사이드바 상세 보기 공용
+// 모든 값은 React 텍스트로 렌더링(HTML 문자열 조립 없음)
+export function CenterDetail({
+  center,
+  sessions,
+  distance,
+  position,
+  onPrev,
+  onNext,
+  onPrint,
+  compact = false,
+  now = new Date(),
+  examDate,
+}: {
+  center: Center;
+  sessions: ExamSession[];
+  distance?: string;
+  position?: { index: number; total: number };
+  onPrev?: () => void;
+  onNext?: () => void;
+  onPrint?: () => void; // 인쇄용 안내문(사이드바 상세에서만)
+  compact?: boolean;
+  now?: Date;
+  examDate?: string; // 시험 일정 필터의 날짜: 그날 운영 여부 표시
+}) {
+  const { lang, t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  useEffect(() => setCopied(false), [center.id]);
+  const name = localized(center, "name", lang);
+  const address = localized(center, "address", lang);
+  const note = localized(center, "note", lang);
+
+  const copyAddress = async () => {
+    if (!address) return;
+    try {
+      await navigator.clipboard.writeText(address);
+    } catch {
+      // clipboard API가 막힌 환경(비보안 컨텍스트 등)
+      const ta = document.createElement("textarea");
+      ta.value = address;
+      document.body.appendChild(ta);
+      ta.select();
+      document.execCommand("copy");
+      ta.remove();
+    }
+    setCopied(true);
+  };
+
+  const line = { fontSize: 12, color: "#444", marginTop: 2 } as const;
+  const smallButton = { fontSize: 11, padding: "2px 8px", borderRadius: 9999, border: "1px solid #d1d5db", background: "#fff", cursor: "pointer" } as const;
+
+  return (
+    <div style={{ fontFamily: "system-ui", minWidth: compact ? 220 : undefined, maxWidth: compact ? 280 : undefined }}>
+      <div style={{ fontWeight: 700, marginBottom: 4, paddingRight: compact ? 16 : 0 }}>{name}</div>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginBottom: 4 }}>
+        {categoriesOf(center).map((cat) => <CategoryBadge key={cat.id} category={cat} />)}
+      </div>
+
+      {address && (
+        <div style={{ ...line, display: "flex", gap: 6, alignItems: "flex-start" }}>
+          <span style={{ flex: 1 }}>{address}</span>
+          <button onClick={copyAddress} style={smallButton}>{t(copied ? "detail.copied" : "detail.copyAddress")}</button>
+        </div>
+      )}
+      {(center.transit || []).length > 0 && (
+        <div style={{ marginTop: 4 }}><TransitBadges transit={center.transit} /></div>
+      )}
+      {distance && <div style={{ ...line, color: "#111827" }}>{t("detail.fromOrigin", { distance })}</div>}
+      {center.phone && (
+        <div style={line}>☎ <a href={`tel:${center.phone.replace(/[^0-9+]/g, "")}`}>{center.phone}</a></div>
+      )}
+      {center.openingHours ? (
+        <div style={{ ...line, marginTop: 6 }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: 2 }}>⏰ <OpenBadge hours={center.openingHours} now={now} /></div>
+          <HoursTable hours={center.openingHours} now={now} />
+        </div>
+      ) : (
+        center.hours && <div style={line}>⏰ {center.hours}</div>
+      )}
+      {examDate && center.openingHours && <div style={line}><ExamDayHours hours={center.openingHours} date={examDate} /></div>}
+      {note && <div style={line}>📝 {note}</div>}
+
+      {(center.tags || []).length > 0 && (
+        <div style={{ marginTop: 6, display: "flex", flexWrap: "wrap", gap: 4 }}>
+          {(center.tags || []).map((tag) => (
+            <span key={tag} style={{ fontSize: 10, background: "#eff6ff", color: "#1d4ed8", padding: "2px 8px", borderRadius: 9999 }}>{tagLabel(tag, lang)}</span>
+          ))}
+        </div>
+      )}
+
+      {sessions.length > 0 && (
+        <div style={{ marginTop: 6, borderTop: "1px solid #eee", paddingTop: 6, fontSize: 12 }}>
+          {sessions.map((s, i) => (
+            <div key={i}>📅 {s.date} {s.slot} · {s.qualification} ({sessionKindLabel(s.kind, lang)}{s.seats !== undefined ? t("session.seats", { seats: s.seats }) : ""})</div>
+          ))}
+        </div>
+      )}
+
+      {onPrint && !compact && (
+        <div style={{ marginTop: 8 }}><button onClick={onPrint} style={smallButton}>{t("print.one")}</button></div>
+      )}
+
+      {position && position.total > 1 && (
+        <div style={{ marginTop: 8, display: "flex", alignItems: "center", justifyContent: "space-between", fontSize: 11, color: "#6b7280" }}>
+          <button onClick={onPrev} disabled={!onPrev} style={smallButton}>{t("detail.prev")}</button>
+          <span>{position.index + 1} / {position.total}</span>
+          <button onClick={onNext} disabled={!onNext} style={smallButton}>{t("detail.next")}</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import maplibregl, { Map as MlMap } from "maplibre-gl";
+import { centersToCSV, centersToJSON, diffCenters, splitTags, validateCenter, withDerived, withDistrict, type Center } from "../lib/centers";
+import type { IngestIssue } from "../lib/csv";
+import { DISTRICTS, districtLabel } from "../lib/districts";
+import { clearDraft, loadDraft, saveDraft, type EditorDraft } from "../lib/draft";
+import { dateLocale, useI18n, type MessageKey } from "../lib/i18n";
+import { describeTransit, resolveTransit, transitOverrideCell } from "../lib/transit";
+
+// =========================
+// 관리자 시험장 편집기
+// - 추가/수정/삭제, 마커 드래그로 좌표 지정(관할 자치구 검사 즉시 반영)
+// - 불러온 centers.json 대비 변경 사항, CSV/JSON 내보내기, 임시 저장
+// =========================
+type FormValues = Record<"id" | "name" | "address" | "lat" | "lng" | "phone" | "hours" | "note" | "tags" | "transit" | "name_en" | "address_en" | "note_en" | "replaces", string>;
+
+const EMPTY_FORM: FormValues = { id: "", name: "", address: "", lat: "", lng: "", phone: "", hours: "", note: "", tags: "", transit: "", name_en: "", address_en: "", note_en: "", replaces: "" };
+
+// 입력 칸 순서. 라벨은 editor.field.<이름>
+const FIELDS: (keyof FormValues)[] = ["id", "name", "address", "lat", "lng", "phone", "hours", "note", "tags", "transit", "name_en", "address_en", "note_en", "replaces"];
+const fieldLabel = (k: keyof FormValues): MessageKey => `editor.field.${k}`;
+
+function toForm(c: Center): FormValues {
+  return {
+    id: c.id, name: c.name, address: c.address ?? "", lat: String(c.lat), lng: String(c.lng),
+    phone: c.phone ?? "", hours: c.hours ?? "", note: c.note ?? "", tags: (c.tags || []).join(";"),
+    transit: transitOverrideCell(c.transit, c.note),
+    name_en: c.name_en ?? "", address_en: c.address_en ?? "", note_en: c.note_en ?? "",
+    replaces: (c.replaces || []).join(";"),
+  };
+}
+
+function fromForm(f: FormValues): Center {
+  const num = (s: string) => (s.trim() === "" ? NaN : Number(s));
+  return {
+    id: f.id.trim(), name: f.name.trim(), address: f.address.trim() || undefined,
+    lat: num(f.lat), lng: num(f.lng), phone: f.phone.trim() || undefined, hours: f.hours.trim() || undefined,
+    note: f.note.trim() || undefined, tags: splitTags(f.tags),
+    transit: resolveTransit(f.transit, f.note.trim()).transit,
+    name_en: f.name_en.trim() || undefined, address_en: f.address_en.trim() || undefined, note_en: f.note_en.trim() || undefined,
+    replaces: splitTags(f.replaces).length > 0 ? splitTags(f.replaces) : undefined,
+  };
+}
+
+function download(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+const inputStyle = { width: "100%", border: "1px solid #d1d5db", borderRadius: 6, padding: "4px 6px", fontSize: 12 } as const;
+const buttonStyle = { fontSize: 12, padding: "4px 8px", borderRadius: 8, border: "1px solid #d1d5db", background: "#fff" } as const;
+
+export function CenterEditor({
+  map,
+  centers,
+  baseline,
+  onChange,
+  onSelect,
+}: {
+  map: MlMap | null;
+  centers: Center[];
+  baseline: Center[];
+  onChange: (next: Center[]) => void;
+  onSelect?: (id: string | null) => void;
+}) {
+  const { lang, t } = useI18n();
+  // 편집 대상: originalId=null 이면 새 시험장
+  const [editing, setEditing] = useState<{ originalId: string | null; values: FormValues } | null>(null);
+  const [pendingDraft, setPendingDraft] = useState<EditorDraft | null>(() => loadDraft());
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const touched = useRef(false);
+
+  const candidate = editing ? fromForm(editing.values) : null;
+  const issues: IngestIssue[] = useMemo(() => {
+    if (!editing || !candidate) return [];
+    const found = validateCenter(candidate, DISTRICTS);
+    const transit = resolveTransit(editing.values.transit, editing.values.note);
+    if (transit.error) found.push({ level: "error", id: candidate.id || undefined, field: "transit", message: transit.error });
+    if (candidate.id && candidate.id !== editing.originalId && centers.some((c) => c.id === candidate.id)) {
+      found.push({ level: "error", id: candidate.id, field: "id", message: t("editor.duplicateId", { id: candidate.id }) });
+    }
+    return found;
+  }, [editing, centers, t]);
+  const hasError = issues.some((i) => i.level === "error");
+  const positionError = issues.some((i) => i.level === "error" && (i.field === "lat" || i.field === "lng"));
+
+  const diff = useMemo(() => diffCenters(baseline, centers), [baseline, centers]);
+  const dirty = diff.added.length + diff.removed.length + diff.changed.length > 0;
+
+  // 임시 저장: 복원 여부를 고르기 전에는 덮어쓰지 않음
+  useEffect(() => {
+    if (pendingDraft || !touched.current) return;
+    if (!dirty && !editing) { clearDraft(); setSavedAt(null); return; }
+    const timer = setTimeout(() => setSavedAt(saveDraft({ centers, form: editing ?? undefined }).savedAt), 400);
+    return () => clearTimeout(timer);
+  }, [centers, editing, dirty, pendingDraft]);
+
+  const restoreDraft = () => {
+    if (!pendingDraft) return;
+    touched.current = true;
+    onChange(pendingDraft.centers.map((c) => withDerived(c, DISTRICTS)));
+    if (pendingDraft.form) setEditing({ originalId: pendingDraft.form.originalId, values: { ...EMPTY_FORM, ...pendingDraft.form.values } });
+    setSavedAt(pendingDraft.savedAt);
+    setPendingDraft(null);
+  };
+  const discardDraft = () => { clearDraft(); setPendingDraft(null); };
+
+  // 드래그 가능한 편집 마커
+  const markerRef = useRef<maplibregl.Marker | null>(null);
+  const lat = candidate?.lat, lng = candidate?.lng;
+  const hasPosition = typeof lat === "number" && typeof lng === "number" && Number.isFinite(lat) && Number.isFinite(lng);
+  useEffect(() => {
+    if (!map || !editing || !hasPosition) { markerRef.current?.remove(); markerRef.current = null; return; }
+    if (!markerRef.current) {
+      const marker = new maplibregl.Marker({ draggable: true }).setLngLat([lng!, lat!]).addTo(map);
+      marker.on("dragend", () => {
+        const p = marker.getLngLat();
+        touched.current = true;
+        setEditing((e) => e && { ...e, values: { ...e.values, lat: p.lat.toFixed(5), lng: p.lng.toFixed(5) } });
+      });
+      markerRef.current = marker;
+    } else {
+      markerRef.current.setLngLat([lng!, lat!]);
+    }
+  }, [map, editing !== null, hasPosition, lat, lng]);
+  useEffect(() => {
+    const el = markerRef.current?.getElement();
+    el?.querySelectorAll("path").forEach((p) => p.setAttribute("fill", positionError ? "#dc2626" : "#3FB1CE"));
+  });
+  useEffect(() => () => { markerRef.current?.remove(); }, []);
+
+  const startEdit = (id: string) => {
+    const c = centers.find((x) => x.id === id);
+    if (!c) return;
+    touched.current = true;
+    setEditing({ originalId: c.id, values: toForm(c) });
+    onSelect?.(c.id);
+  };
+  const startNew = () => {
+    const center = map?.getCenter();
+    touched.current = true;
+    setEditing({
+      originalId: null,
+      values: { ...EMPTY_FORM, lat: center ? center.lat.toFixed(5) : "", lng: center ? center.lng.toFixed(5) : "" },
+    });
+    onSelect?.(null);
+  };
+  const setField = (k: keyof FormValues, v: string) => {
+    touched.current = true;
+    setEditing((e) => e && { ...e, values: { ...e.values, [k]: v } });
+  };
+  const apply = () => {
+    if (!editing || !candidate || hasError) return;
+    const next = withDerived(candidate, DISTRICTS);
+    onChange(editing.originalId === null ? [...centers, next] : centers.map((c) => (c.id === editing.originalId ? next : c)));
+    setEditing(null);
+  };
+  const remove = () => {
+    if (!editing?.originalId) return;
+    if (!window.confirm(t("editor.confirmDelete", { id: editing.originalId }))) return;
+    touched.current = true;
+    onChange(centers.filter((c) => c.id !== editing.originalId));
+    setEditing(null);
+    onSelect?.(null);
+  };
+  const revertAll = () => {
+    if (!window.confirm(t("editor.confirmRevert"))) return;
+    onChange(baseline);
+    setEditing(null);
+    clearDraft();
+    setSavedAt(null);
+  };
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, border: "1px solid #e5e7eb", borderRadius: 12, background: "#f9fafb" }}>
+      <div style={{ fontSize: 14, fontWeight: 600 }}>{t("editor.title")}</div>
+
+      {pendingDraft && (
+        <div style={{ marginTop: 6, padding: 8, borderRadius: 8, background: "#fef3c7", fontSize: 12, color: "#92400e" }}>
+          {t("editor.draftFound", { time: new Date(pendingDraft.savedAt).toLocaleString(dateLocale(lang)) })}
+          <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+            <button onClick={restoreDraft} style={buttonStyle}>{t("editor.restore")}</button>
+            <button onClick={discardDraft} style={buttonStyle}>{t("editor.discard")}</button>
+          </div>
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+        <select value={editing?.originalId ?? ""} onChange={(e) => e.target.value && startEdit(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+          <option value="">{t("editor.choose")}</option>
+          {centers.map((c) => <option key={c.id} value={c.id}>{c.id} {c.name}</option>)}
+        </select>
+        <button onClick={startNew} style={buttonStyle}>{t("editor.new")}</button>
+      </div>
+
+      {editing && (
+        <div style={{ marginTop: 8, display: "grid", gap: 6 }}>
+          {FIELDS.map((k) => (
+            <label key={k} style={{ fontSize: 11, color: "#374151" }}>
+              {t(fieldLabel(k))}
+              {k === "note" || k === "note_en" ? (
+                <textarea value={editing.values[k]} onChange={(e) => setField(k, e.target.value)} style={{ ...inputStyle, height: 48 }} />
+              ) : (
+                <input value={editing.values[k]} onChange={(e) => setField(k, e.target.value)} style={inputStyle} />
+              )}
+            </label>
+          ))}
+          <div style={{ fontSize: 11, color: "#6b7280" }}>
+            {t("editor.dragHint")}
+            {candidate && !positionError && hasPosition && <> {t("editor.position", { district: districtLabel(withDistrict(candidate, DISTRICTS).district || "", lang) })}</>}
+          </div>
+          {candidate && (candidate.transit || []).length > 0 && (
+            <div style={{ fontSize: 11, color: "#6b7280" }}>
+              {t(editing.values.transit.trim() ? "editor.transitManual" : "editor.transitAuto", { transit: (candidate.transit || []).map((x) => describeTransit(x)).join(" / ") })}
+            </div>
+          )}
+          {issues.map((i, k) => (
+            <div key={k} style={{ fontSize: 11, color: i.level === "error" ? "#dc2626" : "#92400e" }}>
+              {i.field ? `[${i.field}] ` : ""}{i.message}
+            </div>
+          ))}
+          <div style={{ display: "flex", gap: 6 }}>
+            <button onClick={apply} disabled={hasError} style={{ ...buttonStyle, background: hasError ? "#f3f4f6" : "#111", color: hasError ? "#9ca3af" : "#fff" }}>
+              {t(editing.originalId === null ? "editor.add" : "editor.apply")}
+            </button>
+            <button onClick={() => setEditing(null)} style={buttonStyle}>{t("editor.cancel")}</button>
+            {editing.originalId !== null && <button onClick={remove} style={{ ...buttonStyle, color: "#dc2626" }}>{t("editor.delete")}</button>}
+          </div>
+        </div>
+      )}
+
+      {/* 변경 사항 */}
+      <div style={{ marginTop: 10, fontSize: 12 }}>
+        <div style={{ fontWeight: 600 }}>
+          {t("editor.changes", { added: diff.added.length, changed: diff.changed.length, removed: diff.removed.length })}
+        </div>
+        <ul style={{ margin: "4px 0 0", paddingLeft: 16, fontSize: 11, color: "#374151", maxHeight: 120, overflow: "auto" }}>
+          {diff.added.map((c) => <li key={"a" + c.id} style={{ color: "#15803d" }}>+ {c.id} {c.name}</li>)}
+          {diff.changed.map((c) => <li key={"c" + c.id} style={{ color: "#1d4ed8" }}>~ {c.id} ({c.fields.join(", ")})</li>)}
+          {diff.removed.map((c) => <li key={"r" + c.id} style={{ color: "#dc2626" }}>- {c.id} {c.name}</li>)}
+        </ul>
+        {savedAt && <div style={{ fontSize: 11, color: "#6b7280", marginTop: 4 }}>{t("editor.draftSaved", { time: new Date(savedAt).toLocaleTimeString(dateLocale(lang)) })}</div>}
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginTop: 8 }}>
+        <button onClick={() => download("centers.csv", centersToCSV(centers), "text/csv;charset=utf-8")} style={buttonStyle}>{t("editor.exportCsv")}</button>
+        <button onClick={() => download("centers.json", centersToJSON(centers), "application/json")} style={buttonStyle}>{t("editor.exportJson")}</button>
+        {dirty && <button onClick={revertAll} style={{ ...buttonStyle, color: "#dc2626" }}>{t("editor.revert")}</button>}
+      </div>
+    </div>
+  );
+}
@@ -23,7 +23,14 @@ export function Collapsible({
       <header
         id={id}
         onClick={() => setOpen((o) => !o)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === " ") {
+            e.preventDefault();
+            setOpen((o) => !o);
+          }
+        }}
         role="button"
+        tabIndex={0}
         aria-expanded={open}
         style={{
           display: "flex",
@@ -0,0 +1,52 @@
+import type { Center } from "../lib/centers";
+import { CHANGE_COLORS, type CenterChangeInfo, type ClosedCenter } from "../lib/dataset";
+import { districtLabel } from "../lib/districts";
+import { dateLocale, localized, useI18n } from "../lib/i18n";
+
+// 신규/변경 배지(lib/dataset.ts의 유지 기간 안에서만)
+export function ChangeBadge({ info }: { info?: CenterChangeInfo }) {
+  const { lang, t } = useI18n();
+  if (!info) return null;
+  const date = new Date(info.since).toLocaleDateString(dateLocale(lang));
+  const title = info.kind === "new" ? t("change.newTitle", { date }) : t("change.changedTitle", { date, fields: (info.fields || []).join(", ") });
+  return (
+    <span title={title} style={{ fontSize: 10, padding: "1px 6px", borderRadius: 9999, background: CHANGE_COLORS[info.kind], color: "#fff", fontWeight: 600 }}>
+      {t(info.kind === "new" ? "change.new" : "change.changed")}
+    </span>
+  );
+}
+
+// 이전·폐쇄된 시험장(흐리게). 옮겨 간 시험장이 있으면 그쪽으로 이동 버튼
+export function ClosedCenters({ closed, centers, onGoTo }: { closed: ClosedCenter[]; centers: Center[]; onGoTo: (c: Center) => void }) {
+  const { lang, t } = useI18n();
+  if (closed.length === 0) return null;
+  return (
+    <details style={{ marginTop: 8 }}>
+      <summary style={{ fontSize: 12, color: "#6b7280", cursor: "pointer" }}>{t("closed.title", { count: closed.length })}</summary>
+      <ul style={{ marginTop: 6, display: "flex", flexDirection: "column", gap: 6 }}>
+        {closed.map((c) => {
+          const moved = (c.movedTo || []).map((id) => centers.find((x) => x.id === id)).filter((x): x is Center => !!x);
+          return (
+            <li key={c.id} style={{ border: "1px dashed #d1d5db", borderRadius: 12, padding: 10, background: "#f9fafb", color: "#9ca3af" }}>
+              <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13, fontWeight: 600 }}>
+                <span style={{ textDecoration: "line-through" }}>{localized(c, "name", lang)}</span>
+                <span style={{ fontSize: 10, padding: "1px 6px", borderRadius: 9999, background: "#e5e7eb", color: "#4b5563" }}>
+                  {t(moved.length > 0 ? "closed.moved" : "closed.closed")}
+                </span>
+              </div>
+              <div style={{ fontSize: 11, marginTop: 2 }}>
+                {c.district && `[${districtLabel(c.district, lang)}] `}{localized(c, "address", lang)}
+              </div>
+              <div style={{ fontSize: 11, marginTop: 2 }}>{t("closed.since", { date: new Date(c.closedAt).toLocaleDateString(dateLocale(lang)) })}</div>
+              {moved.map((m) => (
+                <button key={m.id} onClick={() => onGoTo(m)} style={{ display: "block", marginTop: 4, fontSize: 12, color: "#1d4ed8", textDecoration: "underline", textAlign: "left" }}>
+                  {t("closed.movedTo", { name: localized(m, "name", lang) })}
+                </button>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
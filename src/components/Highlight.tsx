@@ -0,0 +1,15 @@
+import { mergeRanges, type Range } from "../lib/search";
+
+// 검색 일치 구간 강조(<mark>)
+export function Highlight({ text, ranges }: { text: string; ranges?: Range[] }) {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+  const parts: JSX.Element[] = [];
+  let pos = 0;
+  mergeRanges(ranges).forEach(([s, e], i) => {
+    if (s > pos) parts.push(<span key={`t${i}`}>{text.slice(pos, s)}</span>);
+    parts.push(<mark key={`m${i}`} style={{ background: "#fde68a", color: "inherit", borderRadius: 2, padding: 0 }}>{text.slice(s, e)}</mark>);
+    pos = e;
+  });
+  if (pos < text.length) parts.push(<span key="rest">{text.slice(pos)}</span>);
+  return <>{parts}</>;
+}
@@ -0,0 +1,54 @@
+import { formatRanges, hoursOn, openState, upcomingExceptions, weeklyRows, type OpeningHours } from "../lib/hours";
+import { useI18n } from "../lib/i18n";
+
+// 지금 운영 중/종료 배지(구조화된 운영시간이 없으면 표시 안 함)
+export function OpenBadge({ hours, now }: { hours?: OpeningHours; now: Date }) {
+  const { t } = useI18n();
+  const state = openState(hours, now);
+  if (state === "unknown") return null;
+  const open = state === "open";
+  return (
+    <span style={{ fontSize: 10, padding: "1px 6px", borderRadius: 9999, background: open ? "#dcfce7" : "#f3f4f6", color: open ? "#15803d" : "#6b7280", fontWeight: 600 }}>
+      {t(open ? "hours.open" : "hours.closedNow")}
+    </span>
+  );
+}
+
+// 시험일 운영 여부 한 줄
+export function ExamDayHours({ hours, date }: { hours?: OpeningHours; date: string }) {
+  const { lang, t } = useI18n();
+  if (!hours || !date) return null;
+  const day = hoursOn(hours, date);
+  const closed = day.ranges.length === 0;
+  return (
+    <span style={{ fontSize: 11, color: closed ? "#dc2626" : "#15803d" }}>
+      {t("hours.examDay", { date, holiday: day.holiday ? `, ${t("hours.holidayName", { name: day.holiday })}` : "" })}{" "}
+      {closed ? t("hours.closed") : t("hours.examDayOpen", { ranges: formatRanges(day.ranges, lang) })}
+    </span>
+  );
+}
+
+// 주간 운영시간 표 + 다가오는 예외 날짜
+export function HoursTable({ hours, now }: { hours: OpeningHours; now: Date }) {
+  const { lang } = useI18n();
+  const exceptions = upcomingExceptions(hours, now, lang);
+  const cell = { padding: "1px 6px 1px 0", verticalAlign: "top" } as const;
+  return (
+    <table style={{ fontSize: 12, color: "#374151", borderCollapse: "collapse" }}>
+      <tbody>
+        {weeklyRows(hours, lang).map((r) => (
+          <tr key={r.label}>
+            <td style={{ ...cell, color: "#6b7280", whiteSpace: "nowrap" }}>{r.label}</td>
+            <td style={{ ...cell, color: r.closed ? "#9ca3af" : undefined }}>{r.text}</td>
+          </tr>
+        ))}
+        {exceptions.map((e) => (
+          <tr key={e.date}>
+            <td style={{ ...cell, color: "#b45309", whiteSpace: "nowrap" }}>{e.date}</td>
+            <td style={{ ...cell, color: "#b45309" }}>{e.text}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,40 @@
+import type { IngestIssue } from "../lib/csv";
+import { useI18n } from "../lib/i18n";
+
+// CSV 업로드/붙여넣기 결과의 행별 오류·경고 표
+export function IssueTable({ issues }: { issues: IngestIssue[] }) {
+  const { t } = useI18n();
+  if (issues.length === 0) return null;
+  const errors = issues.filter((i) => i.level === "error").length;
+  const warnings = issues.length - errors;
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ fontSize: 12, color: errors > 0 ? "#dc2626" : "#92400e" }}>
+        {t("issues.summary", { errors, warnings })}
+      </div>
+      <div style={{ maxHeight: 180, overflow: "auto", marginTop: 4, border: "1px solid #e5e7eb", borderRadius: 8 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 11 }}>
+          <thead>
+            <tr style={{ background: "#f3f4f6", textAlign: "left" }}>
+              <th style={{ padding: "4px 6px" }}>{t("issues.line")}</th>
+              <th style={{ padding: "4px 6px" }}>{t("issues.level")}</th>
+              <th style={{ padding: "4px 6px" }}>id</th>
+              <th style={{ padding: "4px 6px" }}>{t("issues.message")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {issues.map((i, k) => (
+              <tr key={k} style={{ borderTop: "1px solid #f3f4f6", color: i.level === "error" ? "#dc2626" : "#92400e" }}>
+                <td style={{ padding: "4px 6px", whiteSpace: "nowrap" }}>{i.line ?? "-"}</td>
+                <td style={{ padding: "4px 6px", whiteSpace: "nowrap" }}>{t(i.level === "error" ? "issues.error" : "issues.warning")}</td>
+                <td style={{ padding: "4px 6px", whiteSpace: "nowrap" }}>{i.id ?? ""}</td>
+                <td style={{ padding: "4px 6px" }}>{i.field ? `[${i.field}] ` : ""}{i.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
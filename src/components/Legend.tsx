@@ -0,0 +1,35 @@
+import { CATEGORIES, FALLBACK_CATEGORY, categoryLabel, type Category } from "../lib/categories";
+import { useI18n } from "../lib/i18n";
+
+// 분류 배지: 팝업/목록 공용
+export function CategoryBadge({ category }: { category: Category }) {
+  const { lang } = useI18n();
+  return (
+    <span style={{ display: "inline-flex", alignItems: "center", gap: 3, fontSize: 10, padding: "2px 6px", borderRadius: 9999, background: category.color, color: "#fff" }}>
+      <span aria-hidden>{category.icon}</span>
+      {categoryLabel(category, lang)}
+    </span>
+  );
+}
+
+// data/categories.json에서 만든 범례
+export function Legend() {
+  const { lang, t } = useI18n();
+  const swatch = (fill: string, ring = "#ffffff") => (
+    <span aria-hidden style={{ display: "inline-block", width: 10, height: 10, borderRadius: 9999, background: fill, border: `2px solid ${ring}`, boxShadow: "0 0 0 1px #d1d5db" }} />
+  );
+  return (
+    <div style={{ fontSize: 11, color: "#6b7280", marginTop: 6, display: "flex", flexWrap: "wrap", gap: "4px 10px" }}>
+      {[...CATEGORIES, FALLBACK_CATEGORY].map((c) => (
+        <span key={c.id} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+          {swatch(c.color)} {c.icon} {categoryLabel(c, lang)}
+        </span>
+      ))}
+      {CATEGORIES.length > 1 && (
+        <span style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+          {swatch(CATEGORIES[0].color, CATEGORIES[1].color)} {t("legend.multi")}
+        </span>
+      )}
+    </div>
+  );
+}
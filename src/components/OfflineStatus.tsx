@@ -0,0 +1,53 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { TARGET_BOUNDS } from "../lib/districts";
+import { useI18n } from "../lib/i18n";
+import { MAP_STYLE_CONFIG } from "../lib/mapStyle";
+import { formatAge, pmtilesTileLoader, prefetchTiles, tilesInBounds, xyzTileLoader } from "../lib/offline";
+
+// 오프라인 표시 + 지금 보고 있는 데이터가 언제 것인지(서비스 워커 캐시 시각 또는 불러온 시각)
+export function OfflineBadge({ online, dataTime, now }: { online: boolean; dataTime: string | null; now: Date }) {
+  const { lang, t } = useI18n();
+  if (online) return null;
+  return (
+    <div role="status" style={{ display: "inline-flex", alignItems: "center", gap: 6, fontSize: 11, padding: "3px 8px", borderRadius: 9999, background: "#e5e7eb", color: "#374151" }}>
+      {t("offline.badge")}
+      {dataTime && <span style={{ color: "#6b7280" }}>{t("offline.dataAge", { age: formatAge(dataTime, now, lang) })}</span>}
+    </div>
+  );
+}
+
+// 관할 범위 타일 미리 받기. 자체 타일(XYZ·PMTiles)일 때만: 공용 OSM 타일 서버는 대량 다운로드 금지
+export function SaveMapButton() {
+  const { t } = useI18n();
+  const tiles = useMemo(() => tilesInBounds(TARGET_BOUNDS), []);
+  const load = useMemo(
+    () => (MAP_STYLE_CONFIG.pmtiles ? pmtilesTileLoader(MAP_STYLE_CONFIG.tilesUrl.replace(/^pmtiles:\/\//, "")) : xyzTileLoader(MAP_STYLE_CONFIG.tilesUrl)),
+    []
+  );
+  const [progress, setProgress] = useState<{ done: number; failed?: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const available = MAP_STYLE_CONFIG.selfHosted.tiles && "serviceWorker" in navigator && !!navigator.serviceWorker.controller;
+  if (!available) return null;
+
+  const start = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0 });
+    const failed = await prefetchTiles(tiles, load, (done) => setProgress({ done }), controller.signal);
+    if (!controller.signal.aborted) setProgress({ done: tiles.length, failed });
+  };
+
+  const running = progress !== null && progress.failed === undefined;
+  return (
+    <div style={{ marginTop: 4 }}>
+      <button onClick={start} disabled={running} style={{ fontSize: 11, textDecoration: "underline" }}>
+        {running ? t("offline.saving", { done: progress.done, total: tiles.length }) : t("offline.saveTiles", { count: tiles.length })}
+      </button>
+      {progress?.failed !== undefined && (
+        <span style={{ marginLeft: 6 }}>{progress.failed > 0 ? t("offline.savedPartial", { failed: progress.failed }) : t("offline.saved")}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { createPortal } from "react-dom";
+import { categoriesOf, categoryLabel } from "../lib/categories";
+import { dateLocale, localized, useI18n } from "../lib/i18n";
+import type { PrintPage } from "../lib/print";
+import { describeTransit } from "../lib/transit";
+import { tagLabel } from "../lib/tags";
+
+// =========================
+// 인쇄 미리보기: 시험장당 A4 한 장. 인쇄 시에는 앱(#root)을 숨기고 이 화면만 출력(index.html의 @media print)
+// - 준비 중에는 진행률과 취소, 끝나면 인쇄(브라우저의 PDF 저장 포함)와 닫기
+// =========================
+export function PrintSheet({
+  pages,
+  total,
+  ready,
+  onPrint,
+  onClose,
+}: {
+  pages: PrintPage[];
+  total: number;
+  ready: boolean;
+  onPrint: () => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const toolbarButton = { fontSize: 13, padding: "6px 12px", borderRadius: 9999, border: "1px solid #d1d5db", background: "#fff", cursor: "pointer" } as const;
+  return createPortal(
+    <div id="print-root" role="dialog" aria-modal="true" aria-label={t("print.title")}
+         style={{ position: "fixed", inset: 0, zIndex: 100, overflow: "auto", background: "#e5e7eb" }}>
+      <div className="no-print" style={{ position: "sticky", top: 0, zIndex: 1, display: "flex", alignItems: "center", gap: 8, padding: "8px 12px", background: "#111827", color: "#fff", fontSize: 13 }}>
+        <span style={{ flex: 1 }}>{ready ? t("print.ready", { count: pages.length }) : t("print.preparing", { done: pages.length, total })}</span>
+        {ready && <button onClick={onPrint} disabled={pages.length === 0} style={{ ...toolbarButton, background: "#2563eb", borderColor: "#2563eb", color: "#fff" }}>{t("print.print")}</button>}
+        <button onClick={onClose} style={toolbarButton}>{t(ready ? "common.close" : "print.cancel")}</button>
+      </div>
+      {pages.map((p) => <PrintPageView key={p.center.id} page={p} />)}
+    </div>,
+    document.body,
+  );
+}
+
+function PrintPageView({ page }: { page: PrintPage }) {
+  const { lang, t } = useI18n();
+  const c = page.center;
+  const address = localized(c, "address", lang);
+  const note = localized(c, "note", lang);
+  const row = (label: string, value: React.ReactNode) => (
+    <tr>
+      <th style={{ textAlign: "left", verticalAlign: "top", whiteSpace: "nowrap", padding: "4px 12px 4px 0", color: "#6b7280", fontWeight: 600 }}>{label}</th>
+      <td style={{ padding: "4px 0" }}>{value}</td>
+    </tr>
+  );
+  return (
+    <section className="print-page"
+             style={{ boxSizing: "border-box", width: "210mm", minHeight: "297mm", margin: "12px auto", padding: "14mm", background: "#fff", color: "#111827", fontFamily: "system-ui", fontSize: "11pt", boxShadow: "0 2px 10px rgba(0,0,0,.15)" }}>
+      <h1 style={{ fontSize: "20pt", margin: 0 }}>{localized(c, "name", lang)}</h1>
+      <div style={{ color: "#6b7280", marginTop: 4 }}>{categoriesOf(c).map((cat) => `${cat.icon} ${categoryLabel(cat, lang)}`).join("  ")}</div>
+
+      <div style={{ marginTop: "6mm", border: "1px solid #d1d5db", borderRadius: 8, overflow: "hidden", background: "#f3f4f6" }}>
+        {page.map
+          ? <img src={page.map} alt="" style={{ display: "block", width: "100%", maxHeight: "110mm", objectFit: "cover" }} />
+          : <div style={{ padding: "20mm 0", textAlign: "center", color: "#6b7280" }}>{t("print.noMap")}</div>}
+      </div>
+
+      <table style={{ marginTop: "6mm", borderCollapse: "collapse", width: "100%" }}>
+        <tbody>
+          {address && row(t("print.address"), <>
+            {address}
+            {address !== c.address && c.address && <div style={{ color: "#6b7280" }}>{c.address}</div>}
+          </>)}
+          {c.phone && row(t("print.phone"), c.phone)}
+          {c.hours && row(t("hours.title"), c.hours)}
+          {(c.transit || []).length > 0 && row(t("transit.title"), (c.transit || []).map((tr, i) => <div key={i}>{describeTransit(tr, lang)}</div>))}
+          {note && row(t("print.directions"), note)}
+          {(c.tags || []).length > 0 && row(t("facet.tag"), (c.tags || []).map((tag) => tagLabel(tag, lang)).join(", "))}
+        </tbody>
+      </table>
+
+      <div style={{ marginTop: "8mm", display: "flex", alignItems: "center", gap: "6mm" }}>
+        <img src={page.qr} alt="" style={{ width: "32mm", height: "32mm" }} />
+        <div>
+          <div style={{ fontWeight: 600 }}>{t("print.scan")}</div>
+          <div style={{ marginTop: 4, fontSize: "9pt", color: "#6b7280", wordBreak: "break-all" }}>{page.url}</div>
+        </div>
+      </div>
+      <div style={{ marginTop: "8mm", fontSize: "8pt", color: "#9ca3af" }}>{t("print.footer", { title: t("app.title"), date: new Date().toLocaleDateString(dateLocale(lang)) })}</div>
+    </section>
+  );
+}
@@ -0,0 +1,32 @@
+import { useI18n } from "../lib/i18n";
+import { describeTransit, lineInfo, lineLabel, type Transit } from "../lib/transit";
+
+// 노선 색 배지(2호선 초록 등)
+export function LineBadge({ line }: { line: string }) {
+  const { lang } = useI18n();
+  const info = lineInfo(line);
+  return (
+    <span title={lineLabel(line, lang)} style={{ display: "inline-block", minWidth: 16, padding: "0 5px", borderRadius: 9999, background: info.color, color: "#fff", fontSize: 10, fontWeight: 700, lineHeight: "16px", textAlign: "center" }}>
+      {/^\d+$/.test(line) ? line : lineLabel(line, lang).replace(/선$| Line$/, "")}
+    </span>
+  );
+}
+
+// 역·출구·도보 시간 목록. compact면 가장 가까운 한 건만
+export function TransitBadges({ transit, compact = false }: { transit?: Transit[]; compact?: boolean }) {
+  const { lang } = useI18n();
+  if (!transit || transit.length === 0) return null;
+  const shown = compact
+    ? [transit.reduce((a, b) => ((b.walkMinutes ?? Infinity) < (a.walkMinutes ?? Infinity) ? b : a))]
+    : transit;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+      {shown.map((t, i) => (
+        <div key={i} style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 3, fontSize: 12, color: "#374151" }}>
+          {t.lines.map((l) => <LineBadge key={l} line={l} />)}
+          <span>{describeTransit(t, lang)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import categoriesJson from "../../data/categories.json";
+import type { Center } from "./centers";
+import { localized, type Lang } from "./i18n";
+
+// =========================
+// 시험장 분류(범례) 설정: data/categories.json
+// - 태그 → 라벨/색/아이콘/우선순위. 마커 색, 팝업 배지, 범례가 모두 여기서 만들어진다
+// - priority가 작을수록 대표 분류(마커 안쪽 색). 두 번째 분류는 마커 테두리(링) 색
+// =========================
+export type Category = {
+  id: string;
+  label: string;
+  label_en: string;
+  tags: string[];
+  color: string;
+  icon: string;
+  priority: number;
+};
+
+export const FALLBACK_CATEGORY: Category = { ...categoriesJson.fallback, tags: [], priority: Number.MAX_SAFE_INTEGER };
+
+export const CATEGORIES: Category[] = (categoriesJson.categories as Category[]).slice().sort((a, b) => a.priority - b.priority);
+
+const BY_ID = new Map([...CATEGORIES, FALLBACK_CATEGORY].map((c) => [c.id, c]));
+
+export function getCategory(id: string): Category {
+  return BY_ID.get(id) ?? FALLBACK_CATEGORY;
+}
+
+export const categoryLabel = (cat: Category, lang: Lang = "ko") => localized(cat, "label", lang);
+
+// 해당하는 분류를 우선순위 순으로. 하나도 없으면 [기타]
+export function categoriesOf(c: Pick<Center, "tags">): Category[] {
+  const tags = (c.tags || []).map((t) => t.trim());
+  const found = CATEGORIES.filter((cat) => cat.tags.some((t) => tags.includes(t)));
+  return found.length > 0 ? found : [FALLBACK_CATEGORY];
+}
+
+// feature property(분류 id) → 색 match 식
+export function categoryColorExpression(prop: string, fallback = FALLBACK_CATEGORY.color): any[] {
+  return ["match", ["get", prop], ...CATEGORIES.flatMap((c) => [c.id, c.color]), fallback];
+}
@@ -0,0 +1,248 @@
+import { parseCSVRecords, toCSV, type IngestIssue } from "./csv";
+import { districtFromAddress, findDistrict, type District } from "./districts";
+import { parseHours, type OpeningHours } from "./hours";
+import { findStationByName, parseTransitNote, resolveTransit, transitOverrideCell, type Transit } from "./transit";
+import { KNOWN_TAGS } from "./tags";
+
+// =========================
+// 데이터 스키마 정의
+// =========================
+export type Center = {
+  id: string;
+  name: string;
+  address?: string;
+  lat: number;
+  lng: number;
+  phone?: string;
+  hours?: string;
+  note?: string;
+  tags?: string[];
+  // 영문 표기(선택). 비어 있으면 영어 화면에서도 한국어 값을 표시
+  name_en?: string;
+  address_en?: string;
+  note_en?: string;
+  // 이 시험장으로 옮겨 온 예전(폐쇄) 시험장 id. 폐쇄 안내에서 이동 위치로 표시
+  replaces?: string[];
+  // 지하철 접근 정보: CSV transit 컬럼(수동) 또는 note에서 추출(lib/transit.ts)
+  transit?: Transit[];
+  // 파생 필드: 좌표가 속한 자치구(data/districts.json 기준)
+  district?: string;
+  // 파생 필드: hours를 해석한 운영시간(lib/hours.ts). 형식 오류면 비움
+  openingHours?: OpeningHours;
+};
+
+// [[west, south], [east, north]]
+export type Bounds = [[number, number], [number, number]];
+
+export type CenterIngestResult = {
+  centers: Center[];
+  issues: IngestIssue[];
+};
+
+export const REQUIRED_COLUMNS = ["id", "name", "lat", "lng"] as const;
+export const OPTIONAL_COLUMNS = ["address", "phone", "hours", "note", "tags", "transit", "name_en", "address_en", "note_en", "replaces"] as const;
+
+// tags 셀: ; | , 구분 허용
+export function splitTags(raw: string | undefined): string[] {
+  return (raw || "").split(/[;|,]/).map((t) => t.trim()).filter(Boolean);
+}
+
+// 좌표 셀: 빈 값은 NaN으로 처리해 검증 단계에서 걸러지게 함
+function toNumber(raw: string): number {
+  return raw.trim() === "" ? NaN : Number(raw);
+}
+
+// =========================
+// 검증: 실패해도 throw 하지 않고 항목별 이슈를 돌려준다
+// =========================
+// districts를 주면 좌표가 관할 자치구 안에 있는지(point-in-polygon)까지 확인
+export function validateCenter(c: Center, districts?: District[]): IngestIssue[] {
+  const issues: IngestIssue[] = [];
+  const err = (field: string, message: string) => issues.push({ level: "error", id: c.id || undefined, field, message });
+  if (!(typeof c.id === "string" && c.id.length > 0)) err("id", `id가 비어 있습니다${c.name ? ` (${c.name})` : ""}`);
+  if (!(typeof c.name === "string" && c.name.length > 0)) err("name", "name이 비어 있습니다");
+  const latOk = typeof c.lat === "number" && Number.isFinite(c.lat);
+  const lngOk = typeof c.lng === "number" && Number.isFinite(c.lng);
+  if (!latOk) err("lat", "lat이 숫자가 아닙니다");
+  if (!lngOk) err("lng", "lng가 숫자가 아닙니다");
+  if (!c.address) issues.push({ level: "warning", id: c.id || undefined, field: "address", message: "address가 비어 있습니다" });
+  (c.tags || []).filter((t) => !KNOWN_TAGS.includes(t)).forEach((t) => {
+    issues.push({ level: "warning", id: c.id || undefined, field: "tags", message: `data/tags.json에 없는 태그입니다: ${t}` });
+  });
+  parseHours(c.hours).errors.forEach((message) => {
+    issues.push({ level: "warning", id: c.id || undefined, field: "hours", message: `운영시간: ${message}` });
+  });
+  (c.transit || []).filter((t) => !findStationByName(t.station)).forEach((t) => {
+    issues.push({ level: "warning", id: c.id || undefined, field: "transit", message: `data/stations.json에 없는 역입니다: ${t.station}` });
+  });
+  if (districts && latOk && lngOk) {
+    const d = findDistrict(c.lng, c.lat, districts);
+    const named = districtFromAddress(c.address);
+    if (!d) err("lat", `좌표가 관할 자치구 밖에 있습니다: ${c.lat}, ${c.lng}`);
+    else if (named && named !== d.name) {
+      issues.push({ level: "warning", id: c.id || undefined, field: "address", message: `주소의 자치구(${named})와 좌표 위치(${d.name})가 다릅니다` });
+    }
+  }
+  return issues;
+}
+
+// 목록 전체 검사: id 중복(오류), 좌표 중복·replaces가 목록에 남은 시험장을 가리킴(경고). 결과는 data와 같은 순서의 항목별 이슈
+export function validateDataset(data: Center[]): IngestIssue[][] {
+  const out: IngestIssue[][] = data.map(() => []);
+  const firstById = new Map<string, number>();
+  const firstByCoord = new Map<string, number>();
+  const ids = new Set(data.map((c) => c.id));
+  data.forEach((c, i) => {
+    if (c.id) {
+      const first = firstById.get(c.id);
+      if (first === undefined) firstById.set(c.id, i);
+      else out[i].push({ level: "error", id: c.id, field: "id", message: `id가 중복됩니다(${first + 1}번째 항목과 같음)` });
+    }
+    if (Number.isFinite(c.lat) && Number.isFinite(c.lng)) {
+      const key = `${c.lat.toFixed(5)},${c.lng.toFixed(5)}`;
+      const first = firstByCoord.get(key);
+      if (first === undefined) firstByCoord.set(key, i);
+      else out[i].push({ level: "warning", id: c.id || undefined, field: "lat", message: `좌표가 ${data[first].id || first + 1}와 같습니다` });
+    }
+    (c.replaces || []).filter((r) => ids.has(r)).forEach((r) => {
+      out[i].push({ level: "warning", id: c.id || undefined, field: "replaces", message: `replaces의 시험장이 아직 목록에 있습니다: ${r}` });
+    });
+  });
+  return out;
+}
+
+export function validateCenters(data: Center[], districts?: District[]): IngestIssue[] {
+  const dataset = validateDataset(data);
+  return data.flatMap((c, i) => [...validateCenter(c, districts), ...dataset[i]]);
+}
+
+// 좌표로 자치구 파생(경계 밖이면 비움)
+export function withDistrict(c: Center, districts?: District[]): Center {
+  return { ...c, district: findDistrict(c.lng, c.lat, districts)?.name };
+}
+
+// 파생 필드 일괄: 자치구, 운영시간, transit(없는 예전 centers.json 등은 note에서 추출)
+export function withDerived(c: Center, districts?: District[]): Center {
+  return {
+    ...withDistrict(c, districts),
+    transit: c.transit ?? parseTransitNote(c.note),
+    openingHours: parseHours(c.hours).hours ?? undefined,
+  };
+}
+
+// 항목별 + 목록 전체 검사 후 오류가 없는 항목만 남긴다(경고는 통과). lines는 CSV 원본 줄 번호
+function keepValid(data: Center[], districts: District[] | undefined, lines?: number[]): CenterIngestResult {
+  const dataset = validateDataset(data);
+  const issues: IngestIssue[] = [];
+  const centers = data.filter((c, i) => {
+    const found = [...validateCenter(c, districts), ...dataset[i]].map((x) => (lines ? { ...x, line: lines[i] } : x));
+    issues.push(...found);
+    return !found.some((x) => x.level === "error");
+  });
+  return { centers: centers.map((c) => withDerived(c, districts)), issues };
+}
+
+export function keepValidCenters(data: Center[], districts?: District[]): CenterIngestResult {
+  return keepValid(data, districts);
+}
+
+// =========================
+// CSV → Center[]: 헤더 기반, 오류 행은 제외하고 이슈 목록에 기록
+// =========================
+export function ingestCentersCSV(text: string, districts?: District[]): CenterIngestResult {
+  const { records, issues } = parseCSVRecords(text);
+  if (records.length === 0) return { centers: [], issues };
+
+  const [head, ...rows] = records;
+  const header = head.cells.map((h) => h.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((k) => !header.includes(k));
+  if (missing.length > 0) {
+    issues.push({ level: "error", line: head.line, message: `CSV 헤더에 필수 컬럼이 없습니다: ${missing.join(",")}` });
+    return { centers: [], issues };
+  }
+  const known = new Set<string>([...REQUIRED_COLUMNS, ...OPTIONAL_COLUMNS]);
+  header.filter((h) => h && !known.has(h)).forEach((h) => {
+    issues.push({ level: "warning", line: head.line, field: h, message: `알 수 없는 컬럼은 무시합니다: ${h}` });
+  });
+
+  const parsed: Center[] = [];
+  const lines: number[] = [];
+  for (const row of rows) {
+    if (row.cells.length !== header.length) {
+      issues.push({ level: "warning", line: row.line, message: `컬럼 수가 헤더와 다릅니다 (${row.cells.length}/${header.length})` });
+    }
+    const get = (k: string) => {
+      const i = header.indexOf(k);
+      return i >= 0 ? (row.cells[i] ?? "").trim() : "";
+    };
+    const transit = resolveTransit(get("transit"), get("note"));
+    if (transit.error) {
+      issues.push({ level: "warning", line: row.line, id: get("id") || undefined, field: "transit", message: `${transit.error} (note에서 추출한 값 사용)` });
+    }
+    const replaces = splitTags(get("replaces"));
+    const c: Center = {
+      id: get("id"),
+      name: get("name"),
+      address: get("address") || undefined,
+      lat: toNumber(get("lat")),
+      lng: toNumber(get("lng")),
+      phone: get("phone") || undefined,
+      hours: get("hours") || undefined,
+      note: get("note") || undefined,
+      tags: splitTags(get("tags")),
+      name_en: get("name_en") || undefined,
+      address_en: get("address_en") || undefined,
+      note_en: get("note_en") || undefined,
+      replaces: replaces.length > 0 ? replaces : undefined,
+      transit: transit.transit,
+    };
+    parsed.push(c);
+    lines.push(row.line);
+  }
+  const result = keepValid(parsed, districts, lines);
+  return { centers: result.centers, issues: [...issues, ...result.issues] };
+}
+
+// =========================
+// 내보내기 / 비교
+// =========================
+// data/centers.csv 형식(헤더 순서 고정, tags는 ; 구분). 파생 필드(district)는 내보내지 않음
+// transit은 note에서 추출한 값과 다를 때(수동 지정)만 채운다
+export const CSV_COLUMNS = ["id", "name", "address", "lat", "lng", "phone", "hours", "note", "tags", "transit", "name_en", "address_en", "note_en", "replaces"] as const;
+
+export function centersToCSV(data: Center[]): string {
+  return toCSV(CSV_COLUMNS, data.map((c) => [
+    c.id, c.name, c.address ?? "", String(c.lat), String(c.lng), c.phone ?? "", c.hours ?? "", c.note ?? "", (c.tags || []).join(";"),
+    transitOverrideCell(c.transit, c.note), c.name_en ?? "", c.address_en ?? "", c.note_en ?? "", (c.replaces || []).join(";"),
+  ]));
+}
+
+// 저장용 JSON: public/centers.json과 같은 모양
+export function centersToJSON(data: Center[]): string {
+  return JSON.stringify(data.map(({ district: _d, openingHours: _h, ...c }) => c), null, 2) + "\n";
+}
+
+export type CenterChange = { id: string; fields: (keyof Center)[] };
+export type CenterDiff = { added: Center[]; removed: Center[]; changed: CenterChange[] };
+
+const DIFF_FIELDS: (keyof Center)[] = ["name", "address", "lat", "lng", "phone", "hours", "note", "tags", "transit", "name_en", "address_en", "note_en", "replaces"];
+
+function sameValue(a: unknown, b: unknown) {
+  if (Array.isArray(a) || Array.isArray(b)) return JSON.stringify(a || []) === JSON.stringify(b || []);
+  return (a ?? "") === (b ?? "");
+}
+
+export function diffCenters(before: Center[], after: Center[]): CenterDiff {
+  const prev = new Map(before.map((c) => [c.id, c]));
+  const next = new Map(after.map((c) => [c.id, c]));
+  const added = after.filter((c) => !prev.has(c.id));
+  const removed = before.filter((c) => !next.has(c.id));
+  const changed: CenterChange[] = [];
+  after.forEach((c) => {
+    const old = prev.get(c.id);
+    if (!old) return;
+    const fields = DIFF_FIELDS.filter((k) => !sameValue(old[k], c[k]));
+    if (fields.length > 0) changed.push({ id: c.id, fields });
+  });
+  return { added, removed, changed };
+}
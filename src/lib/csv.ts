@@ -0,0 +1,126 @@
+// =========================
+// CSV 공통 파서 (RFC 4180)
+// - 빌드 스크립트(scripts/csv2json.ts)와 브라우저 관리자 업로드가 함께 사용
+// - 따옴표 필드, "" 이스케이프, 셀 내부 줄바꿈, BOM, UTF-8/CP949 입력 처리
+// =========================
+
+export type IssueLevel = "error" | "warning";
+
+// 행 단위 오류/경고. line은 원본 텍스트 기준 1부터 시작하는 줄 번호
+export type IngestIssue = {
+  level: IssueLevel;
+  line?: number;
+  id?: string;
+  field?: string;
+  message: string;
+};
+
+// 레코드 하나 = CSV 한 행. line은 레코드가 시작되는 줄 번호
+export type CsvRecord = { line: number; cells: string[] };
+
+export type CsvParseResult = {
+  records: CsvRecord[];
+  issues: IngestIssue[];
+};
+
+const BOM = "﻿";
+
+// 바이트 → 문자열. UTF-8로 엄격 디코딩을 먼저 시도하고 실패하면 CP949(euc-kr)로 재시도
+export function decodeText(input: ArrayBuffer | Uint8Array): string {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    text = new TextDecoder("euc-kr").decode(bytes);
+  }
+  return stripBOM(text);
+}
+
+export function stripBOM(text: string): string {
+  return text.startsWith(BOM) ? text.slice(1) : text;
+}
+
+// 텍스트 전체를 레코드 단위로 분해. 공백뿐인 행은 건너뛴다
+export function parseCSVRecords(input: string): CsvParseResult {
+  const text = stripBOM(input);
+  const records: CsvRecord[] = [];
+  const issues: IngestIssue[] = [];
+
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false; // 현재 셀이 따옴표로 시작했는지
+  let inQuotes = false; // 따옴표 구간 안쪽인지
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endCell = () => {
+    cells.push(quoted ? cell : cell.trim());
+    cell = "";
+    quoted = false;
+  };
+  const endRecord = () => {
+    endCell();
+    if (!(cells.length === 1 && cells[0].trim() === "")) records.push({ line: recordLine, cells });
+    cells = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { cell += '"'; i++; }
+        else inQuotes = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      if (cell.trim() === "" && !quoted) {
+        // 필드 시작 따옴표(앞쪽 공백은 버림)
+        cell = "";
+        quoted = true;
+        inQuotes = true;
+        quoteLine = line;
+      } else {
+        issues.push({ level: "warning", line, message: "따옴표로 감싸지 않은 필드 안에 따옴표가 있습니다. 문자 그대로 읽습니다." });
+        cell += ch;
+      }
+    } else if (ch === ",") {
+      endCell();
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (quoted) {
+      // 닫는 따옴표 뒤의 문자: 공백은 무시, 그 외는 경고 후 이어붙임
+      if (ch.trim() !== "") {
+        issues.push({ level: "warning", line, message: "닫는 따옴표 뒤에 문자가 있습니다." });
+        cell += ch;
+      }
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (inQuotes) {
+    issues.push({ level: "error", line: quoteLine, message: "따옴표가 닫히지 않았습니다. 이후 내용이 한 셀로 합쳐졌습니다." });
+  }
+  if (cell !== "" || cells.length > 0 || quoted) endRecord();
+
+  return { records, issues };
+}
+
+
+// 필드 하나를 CSV 규칙에 맞게 인용(쉼표, 따옴표, 줄바꿈, 앞뒤 공백이 있으면)
+export function quoteCSVField(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCSV(header: readonly string[], rows: string[][]): string {
+  return [header, ...rows].map((r) => r.map(quoteCSVField).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,96 @@
+import { diffCenters, type Center } from "./centers";
+
+// =========================
+// 데이터셋 메타데이터(public/centers.meta.json)
+// - csv2json이 이전 centers.json과 비교해 버전·갱신 시각·시험장별 변경을 기록
+// - 데이터가 그대로면 버전·시각도 그대로(다시 빌드해도 "최종 갱신"이 바뀌지 않음)
+// - 신규/변경 표시는 BADGE_DAYS일, 폐쇄·이전된 시험장은 CLOSED_DAYS일 동안 유지
+// =========================
+export const BADGE_DAYS = 30;
+export const CLOSED_DAYS = 90;
+
+export type CenterChangeKind = "new" | "changed";
+
+// 목록 배지·지도 마커 점 색
+export const CHANGE_COLORS: Record<CenterChangeKind, string> = { new: "#16a34a", changed: "#d97706" };
+
+export type CenterChangeInfo = {
+  kind: CenterChangeKind;
+  since: string; // ISO 8601
+  fields?: string[]; // changed일 때 바뀐 필드
+};
+
+// 목록에서 빠진 시험장: 안내용 최소 정보만 보관
+export type ClosedCenter = Pick<Center, "id" | "name" | "name_en" | "address" | "address_en" | "lat" | "lng" | "district"> & {
+  closedAt: string; // ISO 8601
+  movedTo?: string[]; // replaces로 이 시험장을 가리키는 현재 시험장 id
+};
+
+export type DatasetMeta = {
+  version: number;
+  generatedAt: string; // 이 버전의 데이터가 만들어진 시각(ISO 8601)
+  records: number;
+  changes: Record<string, CenterChangeInfo>;
+  closed: ClosedCenter[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const within = (iso: string, days: number, now: Date) => now.getTime() - Date.parse(iso) < days * DAY_MS;
+
+// 유지 기간이 지난 표시 제거(빌드 시와 화면 표시 시 모두 사용)
+export function activeMeta(meta: DatasetMeta, now = new Date()): DatasetMeta {
+  return {
+    ...meta,
+    changes: Object.fromEntries(Object.entries(meta.changes).filter(([, c]) => within(c.since, BADGE_DAYS, now))),
+    closed: meta.closed.filter((c) => within(c.closedAt, CLOSED_DAYS, now)),
+  };
+}
+
+const movedTo = (id: string, next: Center[]) => {
+  const ids = next.filter((c) => (c.replaces || []).includes(id)).map((c) => c.id);
+  return ids.length > 0 ? ids : undefined;
+};
+
+function toClosed(c: Center, closedAt: string, next: Center[]): ClosedCenter {
+  return {
+    id: c.id, name: c.name, name_en: c.name_en, address: c.address, address_en: c.address_en,
+    lat: c.lat, lng: c.lng, district: c.district, closedAt, movedTo: movedTo(c.id, next),
+  };
+}
+
+// previous: 직전 centers.json(없거나 비어 있으면 비교하지 않음), prevMeta: 직전 centers.meta.json
+export function buildDatasetMeta(previous: Center[] | null, prevMeta: DatasetMeta | null, next: Center[], now = new Date()): DatasetMeta {
+  const at = now.toISOString();
+  if (!previous || previous.length === 0) {
+    return { version: (prevMeta?.version ?? 0) + 1, generatedAt: at, records: next.length, changes: {}, closed: [] };
+  }
+  const diff = diffCenters(previous, next);
+  const unchanged = diff.added.length + diff.removed.length + diff.changed.length === 0;
+  if (unchanged && prevMeta) return activeMeta({ ...prevMeta, records: next.length }, now);
+
+  const kept = prevMeta ? activeMeta(prevMeta, now) : null;
+  const nextIds = new Set(next.map((c) => c.id));
+  const changes: Record<string, CenterChangeInfo> = Object.fromEntries(Object.entries(kept?.changes ?? {}).filter(([id]) => nextIds.has(id)));
+  diff.added.forEach((c) => { changes[c.id] = { kind: "new", since: at }; });
+  diff.changed.forEach(({ id, fields }) => {
+    if (changes[id]?.kind !== "new") changes[id] = { kind: "changed", since: at, fields: fields.map(String) };
+  });
+
+  // 다시 생긴 시험장은 폐쇄 목록에서 빼고, 이동 위치는 현재 replaces 기준으로 갱신
+  const closed = [
+    ...(kept?.closed ?? []).filter((c) => !nextIds.has(c.id)).map((c) => ({ ...c, movedTo: movedTo(c.id, next) ?? c.movedTo })),
+    ...diff.removed.map((c) => toClosed(c, at, next)),
+  ];
+  return { version: (prevMeta?.version ?? 0) + 1, generatedAt: at, records: next.length, changes, closed };
+}
+
+// 불러온 JSON 모양 확인(형식이 다르면 메타데이터 없이 동작)
+export function parseDatasetMeta(data: unknown): DatasetMeta | null {
+  const m = data as DatasetMeta | null;
+  if (!m || typeof m !== "object" || !Number.isInteger(m.version) || typeof m.generatedAt !== "string") return null;
+  return {
+    ...m,
+    changes: m.changes && typeof m.changes === "object" ? m.changes : {},
+    closed: Array.isArray(m.closed) ? m.closed.filter((c) => c && typeof c.id === "string" && Number.isFinite(c.lat) && Number.isFinite(c.lng)) : [],
+  };
+}
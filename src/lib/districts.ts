@@ -0,0 +1,79 @@
+import polygonClipping from "polygon-clipping";
+import districtsJson from "../../data/districts.json";
+import type { Lang } from "./i18n";
+
+// =========================
+// 관할 자치구 경계(강남·서초·송파·강동)
+// - data/districts.json: 자치구별 Polygon. scripts/districts.ts가 행정안전부 행정구역 경계를 단순화해 만든다(출처·시점은 파일의 source)
+// - 마스크/경계선 레이어, 좌표 검증, 센터별 자치구 파생에 사용
+// =========================
+
+type Ring = [number, number][];
+
+export type District = {
+  code: string;
+  name: string;
+  name_en: string;
+  rings: Ring[]; // [외곽, ...구멍]
+};
+
+type DistrictFeature = {
+  properties: { code: string; name: string; name_en: string };
+  geometry: { type: "Polygon"; coordinates: number[][][] };
+};
+
+export const DISTRICTS: District[] = (districtsJson.features as DistrictFeature[]).map((f) => ({
+  code: f.properties.code,
+  name: f.properties.name,
+  name_en: f.properties.name_en,
+  rings: f.geometry.coordinates.map((r) => r.map(([x, y]) => [x, y] as [number, number])),
+}));
+
+export const DISTRICT_NAMES = DISTRICTS.map((d) => d.name);
+
+// 지도 이동 제한 BBox. 서비스 워커 빌드도 쓰므로 값은 lib/offlineConfig.ts에 둔다
+export { TARGET_BOUNDS } from "./offlineConfig";
+
+// 표시용 자치구 이름(영어면 name_en)
+export function districtLabel(name: string, lang: Lang = "ko"): string {
+  return (lang === "en" && DISTRICTS.find((d) => d.name === name)?.name_en) || name;
+}
+
+// 반직선 교차 판정
+function inRing([x, y]: [number, number], ring: Ring) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export function inDistrict(lng: number, lat: number, d: District) {
+  const [outer, ...holes] = d.rings;
+  return inRing([lng, lat], outer) && !holes.some((h) => inRing([lng, lat], h));
+}
+
+export function findDistrict(lng: number, lat: number, districts: District[] = DISTRICTS): District | undefined {
+  return districts.find((d) => inDistrict(lng, lat, d));
+}
+
+// 주소 문자열에 적힌 자치구명(예: "서울시 강남구 ...")
+export function districtFromAddress(address: string | undefined): string | undefined {
+  return address?.match(/(\S+구)(?=\s|$)/)?.[1];
+}
+
+// 관할 밖 음영(world - 자치구 합집합) + 자치구 경계선
+// 자치구 외곽을 각각 구멍으로 넣으면 맞닿은 경계에서 구멍끼리 겹쳐 음영이 어긋나므로 차집합으로 만든다
+export function buildOutsideMask(districts: District[] = DISTRICTS) {
+  const world: Ring = [[-180, -85], [180, -85], [180, 85], [-180, 85], [-180, -85]];
+  const outside = polygonClipping.difference([world], ...districts.map((d) => d.rings));
+  return {
+    type: "FeatureCollection",
+    features: [
+      { type: "Feature", properties: { role: "mask" }, geometry: { type: "MultiPolygon", coordinates: outside } },
+      ...districts.map((d) => ({ type: "Feature", properties: { role: "region", name: d.name, name_en: d.name_en }, geometry: { type: "Polygon", coordinates: d.rings } })),
+    ],
+  } as const;
+}
@@ -0,0 +1,32 @@
+import type { Center } from "./centers";
+
+// =========================
+// 관리자 편집 임시 저장(localStorage)
+// - 새로고침해도 편집 중인 목록과 입력 중인 폼을 잃지 않도록 보관
+// =========================
+const DRAFT_KEY = "seoulgn-exam-map:editor-draft";
+
+export type EditorDraft = {
+  savedAt: string; // ISO
+  centers: Center[];
+  form?: { originalId: string | null; values: Record<string, string> };
+};
+
+export function loadDraft(): EditorDraft | null {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY);
+    if (!raw) return null;
+    const d = JSON.parse(raw);
+    return d && Array.isArray(d.centers) ? (d as EditorDraft) : null;
+  } catch { return null; }
+}
+
+export function saveDraft(draft: Omit<EditorDraft, "savedAt">): EditorDraft {
+  const full = { ...draft, savedAt: new Date().toISOString() };
+  try { localStorage.setItem(DRAFT_KEY, JSON.stringify(full)); } catch (e) { console.warn("[draft] save failed", e); }
+  return full;
+}
+
+export function clearDraft() {
+  try { localStorage.removeItem(DRAFT_KEY); } catch { /* 무시 */ }
+}
@@ -0,0 +1,141 @@
+import type { Center } from "./centers";
+import { CATEGORIES, FALLBACK_CATEGORY, categoriesOf, categoryLabel } from "./categories";
+import { DISTRICT_NAMES, districtLabel } from "./districts";
+import { translate, type Lang, type MessageKey } from "./i18n";
+import { tagLabel } from "./tags";
+
+// =========================
+// 다중 조건 필터(facet)
+// - 같은 항목 안에서는 OR(하나라도) 또는 AND(모두), 항목끼리는 항상 AND
+// - 자치구·주차처럼 시험장당 값이 하나인 항목은 OR만 의미가 있다
+// =========================
+export type FacetId = "tag" | "type" | "district" | "parking";
+export type FacetMode = "and" | "or";
+export type FacetOption = { value: string; label: string };
+
+export type FacetDef = {
+  id: FacetId;
+  label: MessageKey; // 항목 이름(문구 키)
+  multi: boolean; // 시험장당 값이 여러 개일 수 있는지(AND/OR 전환 가능)
+  values: (c: Center) => string[];
+  options: (centers: Center[], lang?: Lang) => FacetOption[];
+};
+
+export type FacetState = { values: string[]; mode: FacetMode };
+export type FacetSelection = Record<FacetId, FacetState>;
+
+// 주차: 태그(주차가능/주차불가)에서 파생
+const PARKING_VALUES = ["yes", "no", "unknown"];
+function parkingOf(c: Center): string {
+  const tags = c.tags || [];
+  if (tags.includes("주차가능")) return "yes";
+  if (tags.includes("주차불가")) return "no";
+  return "unknown";
+}
+
+export const FACETS: FacetDef[] = [
+  {
+    id: "tag",
+    label: "facet.tag",
+    multi: true,
+    values: (c) => (c.tags || []).map((t) => t.trim()),
+    options: (centers, lang) => {
+      const s = new Set<string>();
+      centers.forEach((c) => (c.tags || []).forEach((t) => s.add(t.trim())));
+      return Array.from(s).sort().map((t) => ({ value: t, label: tagLabel(t, lang) }));
+    },
+  },
+  {
+    id: "type",
+    label: "facet.type",
+    multi: true,
+    values: (c) => categoriesOf(c).map((cat) => cat.id),
+    options: (_, lang) => [...CATEGORIES, FALLBACK_CATEGORY].map((cat) => ({ value: cat.id, label: `${cat.icon} ${categoryLabel(cat, lang)}` })),
+  },
+  {
+    id: "district",
+    label: "facet.district",
+    multi: false,
+    values: (c) => (c.district ? [c.district] : []),
+    options: (_, lang) => DISTRICT_NAMES.map((d) => ({ value: d, label: districtLabel(d, lang) })),
+  },
+  {
+    id: "parking",
+    label: "facet.parking",
+    multi: false,
+    values: (c) => [parkingOf(c)],
+    options: (_, lang = "ko") => PARKING_VALUES.map((v) => ({ value: v, label: translate(lang, `parking.${v}` as MessageKey) })),
+  },
+];
+
+export const FACET_IDS = FACETS.map((f) => f.id);
+const BY_ID = new Map(FACETS.map((f) => [f.id, f]));
+
+export function getFacet(id: FacetId): FacetDef {
+  return BY_ID.get(id)!;
+}
+
+export function emptySelection(): FacetSelection {
+  return Object.fromEntries(FACET_IDS.map((id) => [id, { values: [], mode: "or" }])) as unknown as FacetSelection;
+}
+
+export const hasActiveFacets = (sel: FacetSelection) => FACET_IDS.some((id) => sel[id].values.length > 0);
+
+function matchesFacet(c: Center, def: FacetDef, state: FacetState): boolean {
+  if (state.values.length === 0) return true;
+  const have = def.values(c);
+  return state.mode === "and" && def.multi
+    ? state.values.every((v) => have.includes(v))
+    : state.values.some((v) => have.includes(v));
+}
+
+// except: 해당 항목은 건너뜀(OR 항목의 개수 계산용)
+export function applyFacets<T extends Center>(items: T[], sel: FacetSelection, except?: FacetId): T[] {
+  const active = FACETS.filter((f) => f.id !== except && sel[f.id].values.length > 0);
+  if (active.length === 0) return items;
+  return items.filter((c) => active.every((f) => matchesFacet(c, f, sel[f.id])));
+}
+
+// 옵션별 "누르면(또는 이미 눌린 상태에서) 보이는 시험장 수"
+// OR: 이 항목을 뺀 나머지 조건 기준, AND: 현재 조건 전체 기준
+export function facetCounts(items: Center[], sel: FacetSelection, id: FacetId): Map<string, number> {
+  const def = getFacet(id);
+  const base = def.multi && sel[id].mode === "and" ? applyFacets(items, sel) : applyFacets(items, sel, id);
+  const counts = new Map<string, number>();
+  base.forEach((c) => new Set(def.values(c)).forEach((v) => counts.set(v, (counts.get(v) || 0) + 1)));
+  return counts;
+}
+
+export function toggleFacetValue(sel: FacetSelection, id: FacetId, value: string): FacetSelection {
+  const cur = sel[id];
+  const values = cur.values.includes(value) ? cur.values.filter((v) => v !== value) : [...cur.values, value];
+  return { ...sel, [id]: { ...cur, values } };
+}
+
+export function setFacetMode(sel: FacetSelection, id: FacetId, mode: FacetMode): FacetSelection {
+  return { ...sel, [id]: { ...sel[id], mode } };
+}
+
+// 선택 목록(칩 표시용)
+export function selectedChips(sel: FacetSelection, centers: Center[], lang: Lang = "ko"): { facet: FacetDef; value: string; label: string }[] {
+  return FACETS.flatMap((f) => {
+    if (sel[f.id].values.length === 0) return [];
+    const labels = new Map(f.options(centers, lang).map((o) => [o.value, o.label]));
+    return sel[f.id].values.map((value) => ({ facet: f, value, label: labels.get(value) ?? value }));
+  });
+}
+
+// 데이터에 없는 값 제거(링크로 들어온 잘못된 태그 등). 바뀐 게 없으면 같은 객체 반환
+export function pruneSelection(sel: FacetSelection, centers: Center[]): FacetSelection {
+  let changed = false;
+  const next = { ...sel };
+  FACETS.forEach((f) => {
+    const known = new Set(f.options(centers).map((o) => o.value));
+    const values = sel[f.id].values.filter((v) => known.has(v));
+    if (values.length !== sel[f.id].values.length) {
+      changed = true;
+      next[f.id] = { ...sel[f.id], values };
+    }
+  });
+  return changed ? next : sel;
+}
@@ -0,0 +1,19 @@
+// =========================
+// 거리 계산: 직선거리(하버사인)
+// =========================
+export type LngLat = [number, number];
+
+const EARTH_RADIUS_M = 6371008.8;
+
+export function distanceMeters([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// 1km 미만은 m, 이상은 소수 첫째 자리 km
+export function formatDistance(m: number): string {
+  return m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(1)}km`;
+}
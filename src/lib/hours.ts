@@ -0,0 +1,176 @@
+import holidaysJson from "../../data/holidays.json";
+import { translate, type Lang, type MessageKey } from "./i18n";
+
+// =========================
+// 운영시간(hours 컬럼) 구조화
+// - 항목은 ; 또는 줄바꿈으로 구분, "요일/날짜 시간" 형식
+//   월-금 09:00-18:00; 토 09:00-13:00; 일 휴무; 공휴일 휴무; 2025-11-15 08:00-17:00
+// - 요일: 월~일, 범위(월-금)·나열(토·일, 월,수), 매일, 평일, 주말
+// - 시간: 09:00-18:00, 여러 구간은 쉼표(09:00-12:00,13:00-18:00), 휴무
+// - 우선순위: 날짜 예외 > 공휴일(data/holidays.json) > 요일. 언급하지 않은 요일은 휴무
+// - 시각 판정은 서울 시간(Asia/Seoul) 기준
+// =========================
+export type TimeRange = { open: number; close: number }; // 자정부터 분
+
+export type OpeningHours = {
+  weekly: TimeRange[][]; // 0=월 … 6=일, 빈 배열은 휴무
+  holidays?: TimeRange[]; // 없으면 공휴일도 요일 규칙을 따름
+  exceptions: Record<string, TimeRange[]>; // YYYY-MM-DD
+};
+
+export type DayHours = { ranges: TimeRange[]; reason: "weekly" | "holiday" | "exception"; holiday?: string };
+
+export type Holiday = { date: string; name: string };
+export const HOLIDAYS: Holiday[] = holidaysJson;
+const HOLIDAY_BY_DATE = new Map(HOLIDAYS.map((h) => [h.date, h.name]));
+export const HOLIDAY_YEARS = new Set(HOLIDAYS.map((h) => h.date.slice(0, 4)));
+
+// 표에 없는 해는 공휴일을 알 수 없어 평일처럼 판정된다. 해마다 한 번만 경고
+const warnedYears = new Set<string>();
+function warnIfUncovered(date: string) {
+  const year = date.slice(0, 4);
+  if (HOLIDAY_YEARS.has(year) || warnedYears.has(year)) return;
+  warnedYears.add(year);
+  console.warn(`[hours] data/holidays.json has no ${year} holidays. holidays are treated as regular days`);
+}
+
+// 입력 형식의 요일 표기(화면 표시는 weekday.N 문구)
+export const WEEKDAYS = ["월", "화", "수", "목", "금", "토", "일"];
+const CLOSED = "휴무";
+
+function parseTime(raw: string): number | null {
+  const m = raw.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (min > 59 || h > 24 || (h === 24 && min > 0)) return null;
+  return h * 60 + min;
+}
+
+function parseRanges(spec: string): TimeRange[] | string {
+  if (spec === CLOSED) return [];
+  const out: TimeRange[] = [];
+  for (const part of spec.split(",").map((s) => s.trim())) {
+    const [a, b, extra] = part.split(/[-~–]/);
+    const open = a !== undefined ? parseTime(a) : null;
+    const close = b !== undefined ? parseTime(b) : null;
+    if (extra !== undefined || open === null || close === null) return `시간 형식이 올바르지 않습니다: ${part} (예: 09:00-18:00)`;
+    if (close <= open) return `종료 시각이 시작 시각보다 빠릅니다: ${part}`;
+    out.push({ open, close });
+  }
+  out.sort((x, y) => x.open - y.open);
+  if (out.some((r, i) => i > 0 && r.open < out[i - 1].close)) return `시간 구간이 겹칩니다: ${spec}`;
+  return out;
+}
+
+function parseDays(selector: string): number[] | string {
+  if (selector === "매일") return [0, 1, 2, 3, 4, 5, 6];
+  if (selector === "평일") return [0, 1, 2, 3, 4];
+  if (selector === "주말") return [5, 6];
+  const days: number[] = [];
+  for (const part of selector.split(/[·,]/)) {
+    const [a, b] = part.split("-");
+    const from = WEEKDAYS.indexOf(a);
+    const to = b === undefined ? from : WEEKDAYS.indexOf(b);
+    if (from < 0 || to < 0) return `요일을 알 수 없습니다: ${part} (월~일, 매일, 평일, 주말, 공휴일, YYYY-MM-DD)`;
+    for (let d = from; ; d = (d + 1) % 7) {
+      days.push(d);
+      if (d === to) break;
+    }
+  }
+  return days;
+}
+
+const isDate = (s: string) => /^\d{4}-\d{2}-\d{2}$/.test(s) && !Number.isNaN(Date.parse(s));
+
+// 형식 오류는 errors로. 하나라도 있으면 hours는 null(원문만 표시)
+export function parseHours(text: string | undefined): { hours: OpeningHours | null; errors: string[] } {
+  if (!text || !text.trim()) return { hours: null, errors: [] };
+  const weekly: TimeRange[][] = WEEKDAYS.map(() => []);
+  const exceptions: Record<string, TimeRange[]> = {};
+  let holidays: TimeRange[] | undefined;
+  const errors: string[] = [];
+  for (const entry of text.split(/[;\n]/).map((s) => s.trim()).filter(Boolean)) {
+    const m = entry.match(/^(\S+)\s+(.+)$/);
+    if (!m) { errors.push(`"요일 시간" 형식이 아닙니다: ${entry}`); continue; }
+    const [, selector, spec] = m;
+    const ranges = parseRanges(spec.replace(/\s+/g, ""));
+    if (typeof ranges === "string") { errors.push(ranges); continue; }
+    if (selector === "공휴일") holidays = ranges;
+    else if (/^\d{4}-/.test(selector)) {
+      if (!isDate(selector)) errors.push(`날짜 형식이 올바르지 않습니다: ${selector}`);
+      else exceptions[selector] = ranges;
+    } else {
+      const days = parseDays(selector);
+      if (typeof days === "string") errors.push(days);
+      else days.forEach((d) => (weekly[d] = ranges));
+    }
+  }
+  return errors.length > 0 ? { hours: null, errors } : { hours: { weekly, holidays, exceptions }, errors };
+}
+
+// 서울 시간 기준 날짜·요일·분
+export function seoulTime(at: Date): { date: string; weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: "Asia/Seoul", year: "numeric", month: "2-digit", day: "2-digit", weekday: "short", hour: "2-digit", minute: "2-digit", hourCycle: "h23",
+  }).formatToParts(at);
+  const get = (t: string) => parts.find((p) => p.type === t)?.value ?? "";
+  const weekday = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"].indexOf(get("weekday"));
+  return { date: `${get("year")}-${get("month")}-${get("day")}`, weekday, minutes: Number(get("hour")) * 60 + Number(get("minute")) };
+}
+
+function weekdayOf(date: string): number {
+  return (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+export function hoursOn(h: OpeningHours, date: string): DayHours {
+  if (h.exceptions[date]) return { ranges: h.exceptions[date], reason: "exception" };
+  warnIfUncovered(date);
+  const holiday = HOLIDAY_BY_DATE.get(date);
+  if (holiday && h.holidays) return { ranges: h.holidays, reason: "holiday", holiday };
+  return { ranges: h.weekly[weekdayOf(date)], reason: "weekly", holiday };
+}
+
+export function isOpenAt(h: OpeningHours, at: Date): boolean {
+  const t = seoulTime(at);
+  return hoursOn(h, t.date).ranges.some((r) => t.minutes >= r.open && t.minutes < r.close);
+}
+
+// 지도/목록 표시용: 구조화된 운영시간이 없으면 unknown
+export type OpenState = "open" | "closed" | "unknown";
+export function openState(h: OpeningHours | undefined, at: Date): OpenState {
+  if (!h) return "unknown";
+  return isOpenAt(h, at) ? "open" : "closed";
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+export const formatTime = (m: number) => `${pad(Math.floor(m / 60))}:${pad(m % 60)}`;
+export function formatRanges(ranges: TimeRange[], lang: Lang = "ko"): string {
+  return ranges.length === 0 ? translate(lang, "hours.closed") : ranges.map((r) => `${formatTime(r.open)}–${formatTime(r.close)}`).join(", ");
+}
+
+const weekdayName = (d: number, lang: Lang) => translate(lang, `weekday.${d}` as MessageKey);
+
+// 주간 표: 같은 시간이 이어지는 요일은 묶음(월–금)
+export function weeklyRows(h: OpeningHours, lang: Lang = "ko"): { label: string; text: string; closed: boolean }[] {
+  const rows: { from: number; to: number; text: string; closed: boolean }[] = [];
+  h.weekly.forEach((ranges, d) => {
+    const text = formatRanges(ranges, lang);
+    const last = rows[rows.length - 1];
+    if (last && last.text === text && last.to === d - 1) last.to = d;
+    else rows.push({ from: d, to: d, text, closed: ranges.length === 0 });
+  });
+  const out = rows.map((r) => ({
+    label: r.from === r.to ? weekdayName(r.from, lang) : `${weekdayName(r.from, lang)}–${weekdayName(r.to, lang)}`,
+    text: r.text,
+    closed: r.closed,
+  }));
+  if (h.holidays) out.push({ label: translate(lang, "hours.holidays"), text: formatRanges(h.holidays, lang), closed: h.holidays.length === 0 });
+  return out;
+}
+
+// 오늘 이후의 날짜 예외(가까운 순)
+export function upcomingExceptions(h: OpeningHours, at: Date, lang: Lang = "ko"): { date: string; text: string }[] {
+  const today = seoulTime(at).date;
+  return Object.keys(h.exceptions).filter((d) => d >= today).sort().map((date) => ({ date, text: formatRanges(h.exceptions[date], lang) }));
+}
@@ -0,0 +1,69 @@
+import { createContext, useContext } from "react";
+import ko from "../locales/ko.json";
+import enJson from "../locales/en.json";
+
+// =========================
+// 다국어(한국어/영어) UI
+// - 문구는 src/locales/{ko,en}.json. 키는 ko.json 기준, en.json에 빠진 키는 타입 오류
+// - {name} 자리표시자는 vars로 치환
+// - 언어 결정: URL ?lang= > localStorage > 브라우저 언어 > 한국어
+// - 데이터의 *_en 컬럼(name_en 등)은 영어일 때만 쓰고, 비어 있으면 한국어로 대체
+// =========================
+export type Lang = "ko" | "en";
+export const LANGS: Lang[] = ["ko", "en"];
+export const DEFAULT_LANG: Lang = "ko";
+
+export type MessageKey = keyof typeof ko;
+export type MessageVars = Record<string, string | number>;
+export type Translate = (key: MessageKey, vars?: MessageVars) => string;
+
+const en: Record<MessageKey, string> = enJson;
+const CATALOGS: Record<Lang, Record<MessageKey, string>> = { ko, en };
+
+export const isLang = (v: string | null | undefined): v is Lang => !!v && (LANGS as string[]).includes(v);
+
+export function translate(lang: Lang, key: MessageKey, vars?: MessageVars): string {
+  const text = CATALOGS[lang][key] ?? CATALOGS.ko[key] ?? key;
+  return vars ? text.replace(/\{(\w+)\}/g, (m, name) => (name in vars ? String(vars[name]) : m)) : text;
+}
+
+export const translator = (lang: Lang): Translate => (key, vars) => translate(lang, key, vars);
+
+const LANG_STORAGE_KEY = "seoulgn-exam-map:lang";
+
+export function storedLang(): Lang | null {
+  try {
+    const v = localStorage.getItem(LANG_STORAGE_KEY);
+    return isLang(v) ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeLang(lang: Lang) {
+  try {
+    localStorage.setItem(LANG_STORAGE_KEY, lang);
+  } catch {
+    // 저장 불가(사생활 보호 모드 등)면 URL로만 유지
+  }
+}
+
+// URL에 lang이 없을 때의 기본값
+export function detectLang(): Lang {
+  const browser = (navigator.language || "").toLowerCase();
+  return storedLang() ?? (browser && !browser.startsWith("ko") ? "en" : DEFAULT_LANG);
+}
+
+// *_en 필드 우선(영어일 때), 비어 있으면 한국어 원문
+export function localized<T extends object>(item: T, field: keyof T & string, lang: Lang): string {
+  const values = item as Record<string, unknown>;
+  const text = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  return (lang === "en" && text(values[`${field}_en`])) || text(values[field]);
+}
+
+// 날짜 표기용 로캘(toLocaleDateString 등)
+export const dateLocale = (lang: Lang) => (lang === "en" ? "en-US" : "ko-KR");
+
+export type I18n = { lang: Lang; t: Translate };
+export const I18nContext = createContext<I18n>({ lang: DEFAULT_LANG, t: translator(DEFAULT_LANG) });
+export const useI18n = () => useContext(I18nContext);
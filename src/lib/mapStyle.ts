@@ -0,0 +1,119 @@
+import maplibregl, { type StyleSpecification } from "maplibre-gl";
+import { Protocol } from "pmtiles";
+import { translate, type Lang } from "./i18n";
+
+// =========================
+// 지도 스타일 설정(배경 타일 + 글리프)
+// - 기본값은 OSM 래스터 타일 + MapLibre demo glyphs(개발용)
+// - .env(VITE_*)로 public/ 아래 자체 타일·PMTiles·한글 글리프를 가리킬 수 있다
+//   VITE_TILES_TYPE=raster|vector
+//   VITE_TILES_URL=tiles/{z}/{x}/{y}.png | tiles/seoul.pmtiles | https://...
+//   VITE_GLYPHS_URL=fonts/{fontstack}/{range}.pbf
+//   VITE_FONT_REGULAR / VITE_FONT_BOLD = 글리프 폴더 이름(예: Noto Sans KR Regular)
+// =========================
+export type TilesType = "raster" | "vector";
+
+export type MapStyleConfig = {
+  tilesType: TilesType;
+  tilesUrl: string; // 절대 URL(템플릿 또는 pmtiles://...)
+  pmtiles: boolean;
+  attribution: string;
+  glyphs: string; // 절대 URL 템플릿
+  fonts: { regular: string; bold: string };
+  selfHosted: { tiles: boolean; glyphs: boolean };
+};
+
+export const BASEMAP_SOURCE = "basemap";
+export const BASEMAP_LAYER_PREFIX = "basemap";
+
+const DEFAULT_TILES = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const DEFAULT_GLYPHS = "https://demotiles.maplibre.org/font/{fontstack}/{range}.pbf";
+const BACKGROUND = "#f2efe9";
+
+// 상대 경로는 배포 경로(BASE_URL) 기준. 템플릿 중괄호는 그대로 둔다
+function resolvePublic(url: string): string {
+  if (/^[a-z]+:\/\//i.test(url)) return url;
+  const basePath = ((import.meta as any)?.env?.BASE_URL || "/") as string;
+  const base = new URL(basePath, window.location.origin).toString();
+  return base + url.replace(/^\.?\//, "");
+}
+
+const isLocal = (url?: string) => Boolean(url) && !/^https?:\/\//i.test(url!);
+
+export function readMapStyleConfig(env: Record<string, string | undefined> = (import.meta as any).env || {}): MapStyleConfig {
+  const rawTiles = env.VITE_TILES_URL || DEFAULT_TILES;
+  const rawGlyphs = env.VITE_GLYPHS_URL || DEFAULT_GLYPHS;
+  const pmtiles = /\.pmtiles(\?|$)/i.test(rawTiles) || rawTiles.startsWith("pmtiles://");
+  const tilesAbs = resolvePublic(rawTiles.replace(/^pmtiles:\/\//, ""));
+  return {
+    tilesType: env.VITE_TILES_TYPE === "vector" ? "vector" : "raster",
+    tilesUrl: pmtiles ? `pmtiles://${tilesAbs}` : tilesAbs,
+    pmtiles,
+    attribution: env.VITE_TILES_ATTRIBUTION || "© OpenStreetMap",
+    glyphs: resolvePublic(rawGlyphs),
+    fonts: { regular: env.VITE_FONT_REGULAR || "Noto Sans Regular", bold: env.VITE_FONT_BOLD || "Noto Sans Bold" },
+    selfHosted: { tiles: isLocal(env.VITE_TILES_URL), glyphs: isLocal(env.VITE_GLYPHS_URL) },
+  };
+}
+
+export const MAP_STYLE_CONFIG = readMapStyleConfig();
+
+let pmtilesRegistered = false;
+function ensurePmtilesProtocol() {
+  if (pmtilesRegistered) return;
+  maplibregl.addProtocol("pmtiles", new Protocol().tile as any);
+  pmtilesRegistered = true;
+}
+
+// OpenMapTiles 스키마 벡터 타일용 최소 배경 레이어(도로·물·녹지·건물)
+function vectorLayers(): StyleSpecification["layers"] {
+  const src = BASEMAP_SOURCE;
+  return [
+    { id: `${BASEMAP_LAYER_PREFIX}-landcover`, type: "fill", source: src, "source-layer": "landcover", paint: { "fill-color": "#dfe8d0", "fill-opacity": 0.6 } },
+    { id: `${BASEMAP_LAYER_PREFIX}-park`, type: "fill", source: src, "source-layer": "park", paint: { "fill-color": "#cfe3c0" } },
+    { id: `${BASEMAP_LAYER_PREFIX}-water`, type: "fill", source: src, "source-layer": "water", paint: { "fill-color": "#a8cbe8" } },
+    { id: `${BASEMAP_LAYER_PREFIX}-building`, type: "fill", source: src, "source-layer": "building", minzoom: 14, paint: { "fill-color": "#d9d0c9" } },
+    { id: `${BASEMAP_LAYER_PREFIX}-road-minor`, type: "line", source: src, "source-layer": "transportation", filter: ["in", ["get", "class"], ["literal", ["minor", "service", "street", "track"]]], minzoom: 13, paint: { "line-color": "#ffffff", "line-width": 1 } },
+    { id: `${BASEMAP_LAYER_PREFIX}-road-major`, type: "line", source: src, "source-layer": "transportation", filter: ["in", ["get", "class"], ["literal", ["motorway", "trunk", "primary", "secondary", "tertiary"]]], paint: { "line-color": "#f7d58b", "line-width": ["interpolate", ["linear"], ["zoom"], 10, 1, 16, 5] } },
+    { id: `${BASEMAP_LAYER_PREFIX}-rail`, type: "line", source: src, "source-layer": "transportation", filter: ["==", ["get", "class"], "rail"], paint: { "line-color": "#9ca3af", "line-width": 1, "line-dasharray": [3, 3] } },
+  ] as StyleSpecification["layers"];
+}
+
+export function buildMapStyle(config: MapStyleConfig = MAP_STYLE_CONFIG): StyleSpecification {
+  if (config.pmtiles) ensurePmtilesProtocol();
+  const tileSource = config.pmtiles ? { url: config.tilesUrl } : { tiles: [config.tilesUrl] };
+  const background = { id: "background", type: "background", paint: { "background-color": BACKGROUND } } as const;
+  if (config.tilesType === "vector") {
+    return {
+      version: 8,
+      glyphs: config.glyphs,
+      sources: { [BASEMAP_SOURCE]: { type: "vector", ...tileSource, attribution: config.attribution } },
+      layers: [background, ...vectorLayers()],
+    };
+  }
+  return {
+    version: 8,
+    glyphs: config.glyphs,
+    sources: { [BASEMAP_SOURCE]: { type: "raster", ...tileSource, tileSize: 256, attribution: config.attribution } },
+    layers: [background, { id: BASEMAP_LAYER_PREFIX, type: "raster", source: BASEMAP_SOURCE }],
+  };
+}
+
+// 배경 타일 실패 시: 배경 레이어만 남긴 단색 지도로 전환
+export function hideBasemap(map: maplibregl.Map) {
+  (map.getStyle().layers || []).forEach((l) => {
+    if (l.id === BASEMAP_LAYER_PREFIX || l.id.startsWith(`${BASEMAP_LAYER_PREFIX}-`)) map.setLayoutProperty(l.id, "visibility", "none");
+  });
+}
+
+// 오류 이벤트가 글리프 요청에서 온 것인지(템플릿의 고정 접두부로 판단)
+export function isGlyphError(url: string | undefined, config: MapStyleConfig = MAP_STYLE_CONFIG) {
+  return Boolean(url) && url!.startsWith(config.glyphs.split("{")[0]);
+}
+
+export function describeMapSources(lang: Lang = "ko", config: MapStyleConfig = MAP_STYLE_CONFIG) {
+  const kind = translate(lang, config.pmtiles ? "map.tiles.pmtiles" : config.tilesType === "vector" ? "map.tiles.vector" : "map.tiles.raster");
+  const tiles = config.selfHosted.tiles ? translate(lang, "map.tiles.self", { kind }) : config.attribution.replace(/^©\s*/, "");
+  const glyphs = translate(lang, config.selfHosted.glyphs ? "map.glyphs.self" : "map.glyphs.demo");
+  return { tiles, glyphs, production: config.selfHosted.tiles && config.selfHosted.glyphs };
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { PMTiles } from "pmtiles";
+import type { Bounds } from "./centers";
+import { dateLocale, type Lang } from "./i18n";
+import { CACHED_AT_HEADER, DATA_UPDATED_MESSAGE, PREFETCH_ZOOMS } from "./offlineConfig";
+
+// =========================
+// 오프라인 지원(PWA) — 페이지 쪽
+// - 서비스 워커(src/sw.ts → 빌드 시 dist/sw.js) 등록은 빌드 결과에서만
+// - 공개 데이터는 서비스 워커가 stale-while-revalidate로 제공하고, 캐시에서 준 응답에는 캐시 시각 헤더를 붙인다
+// - 타일은 관할 범위·줌 범위(lib/offlineConfig.ts) 안의 것만 서비스 워커가 캐시
+// =========================
+
+export function registerServiceWorker() {
+  const env = (import.meta as any)?.env || {};
+  if (!env.PROD || !("serviceWorker" in navigator)) return;
+  const base = ((env.BASE_URL || "/") as string).replace(/\/?$/, "/");
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register(`${base}sw.js`, { scope: base }).catch((e) => console.warn("[sw] register failed", e));
+  });
+}
+
+// 서비스 워커가 새 데이터를 받아 캐시를 바꿨을 때(다시 불러오면 새 데이터)
+export function onDataUpdated(callback: () => void): () => void {
+  if (!("serviceWorker" in navigator)) return () => {};
+  const onMessage = (e: MessageEvent) => { if (e.data?.type === DATA_UPDATED_MESSAGE) callback(); };
+  navigator.serviceWorker.addEventListener("message", onMessage);
+  return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+}
+
+// 캐시에서 받은 응답이면 캐시 시각(ISO), 네트워크 응답이면 null
+export const cachedAt = (res: Response) => res.headers.get(CACHED_AT_HEADER);
+
+export function useOnline(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+  return online;
+}
+
+// "3분 전", "2 hours ago"
+export function formatAge(iso: string, now: Date, lang: Lang = "ko"): string {
+  const minutes = Math.max(0, Math.round((now.getTime() - Date.parse(iso)) / 60_000));
+  const rtf = new Intl.RelativeTimeFormat(dateLocale(lang), { numeric: "auto" });
+  if (minutes < 60) return rtf.format(-minutes, "minute");
+  if (minutes < 60 * 24) return rtf.format(-Math.round(minutes / 60), "hour");
+  return rtf.format(-Math.round(minutes / (60 * 24)), "day");
+}
+
+// =========================
+// 타일 범위(Web Mercator XYZ). src/sw.ts에도 같은 계산이 있다(서비스 워커는 따로 빌드)
+// =========================
+export function tileXY(lng: number, lat: number, z: number): [number, number] {
+  const n = 2 ** z;
+  const rad = (lat * Math.PI) / 180;
+  const x = Math.floor(((lng + 180) / 360) * n);
+  const y = Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n);
+  return [Math.min(n - 1, Math.max(0, x)), Math.min(n - 1, Math.max(0, y))];
+}
+
+export type TileCoord = [z: number, x: number, y: number];
+
+// bounds를 덮는 타일 목록(줌 낮은 것부터)
+export function tilesInBounds(bounds: Bounds, zooms = PREFETCH_ZOOMS): TileCoord[] {
+  const [[west, south], [east, north]] = bounds;
+  const tiles: TileCoord[] = [];
+  for (let z = zooms.min; z <= zooms.max; z++) {
+    const [x0, y0] = tileXY(west, north, z);
+    const [x1, y1] = tileXY(east, south, z);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) tiles.push([z, x, y]);
+    }
+  }
+  return tiles;
+}
+
+export const tileUrl = (template: string, [z, x, y]: TileCoord) =>
+  template.replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y));
+
+// 타일 하나 받기(성공 여부). 요청만 보내면 서비스 워커가 캐시한다
+export type TileLoader = (tile: TileCoord, signal?: AbortSignal) => Promise<boolean>;
+
+export const xyzTileLoader = (template: string): TileLoader => async (tile, signal) => (await fetch(tileUrl(template, tile), { signal })).ok;
+
+// PMTiles: 지도와 같은 범위 요청(헤더·디렉터리·타일)을 보내므로 서비스 워커가 저장한 범위를 지도가 그대로 쓴다
+// 아카이브에 없는 타일(바다·최대 줌 밖)은 받을 것이 없으므로 성공으로 센다
+export function pmtilesTileLoader(archiveUrl: string): TileLoader {
+  const archive = new PMTiles(archiveUrl);
+  return async ([z, x, y], signal) => {
+    await archive.getZxy(z, x, y, signal);
+    return true;
+  };
+}
+
+// 타일 미리 받기: 동시 4개, 실패는 건너뜀. 실패 개수를 돌려준다
+export async function prefetchTiles(tiles: TileCoord[], load: TileLoader, onProgress: (done: number) => void, signal?: AbortSignal): Promise<number> {
+  let next = 0, done = 0, failed = 0;
+  const worker = async () => {
+    while (next < tiles.length && !signal?.aborted) {
+      const tile = tiles[next++];
+      try { if (!(await load(tile, signal))) failed++; } catch { failed++; }
+      onProgress(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: 4 }, worker));
+  return failed;
+}
@@ -0,0 +1,16 @@
+// =========================
+// 오프라인(PWA) 설정값 — 앱(lib/offline.ts)과 서비스 워커 빌드(scripts/service-worker.ts) 공용
+// vite.config.ts가 불러오므로 import 없이 값만 둔다(React·문구 카탈로그가 설정 번들에 끌려오지 않게)
+// =========================
+export const CACHED_AT_HEADER = "x-sw-cached-at";
+export const DATA_FILES = ["centers.json", "centers.meta.json", "sessions.json"];
+export const DATA_UPDATED_MESSAGE = "data-updated";
+
+// 서비스 워커는 관할 범위(TARGET_BOUNDS)·이 줌 범위 안의 타일만 캐시(개수 상한)
+export const TILE_CACHE_ZOOMS = { min: 10, max: 17 };
+export const TILE_CACHE_MAX_ENTRIES = 4000;
+// "오프라인용 지도 저장"으로 미리 받는 줌(자체 타일일 때만)
+export const PREFETCH_ZOOMS = { min: 11, max: 15 };
+
+// 지도 이동 제한 BBox(강남·서초·송파·강동을 포함). 관할 판정은 자치구 폴리곤(lib/districts.ts) 기준
+export const TARGET_BOUNDS: [[number, number], [number, number]] = [[126.96, 37.43], [127.18, 37.59]];
@@ -0,0 +1,94 @@
+import type { Map as MlMap } from "maplibre-gl";
+import QRCode from "qrcode";
+import type { Center } from "./centers";
+import type { Lang } from "./i18n";
+import { writeUrlState } from "./urlState";
+
+// =========================
+// 인쇄용 안내문(시험장별 한 장)
+// - 지도 이미지는 현재 MapLibre 캔버스를 시험장 위치로 옮겨 그린 뒤 캡처(외부 정적 지도 API 없음)
+// - QR 코드는 qrcode 패키지로 브라우저에서 생성. 오프라인에서도 동작
+// - 타일을 못 받으면(오프라인) 대기 시간 뒤 그려진 그대로 캡처
+// =========================
+export type PrintPage = {
+  center: Center;
+  url: string; // 지도에서 이 시험장을 여는 링크(?center=)
+  qr: string; // data URL(PNG)
+  map: string | null; // data URL(JPEG). 캡처 실패 시 null
+};
+
+export const PRINT_ZOOM = 16;
+const IDLE_TIMEOUT_MS = 8000;
+
+// QR 링크의 기준 주소. 관리자 게시 서버·로컬에서 인쇄해도 공개 지도로 연결되게 VITE_PUBLIC_URL로 지정
+// (예: https://example.github.io/seoulgn-exam-map/). 비어 있으면 지금 열린 주소
+export const PUBLIC_URL = (((import.meta as any)?.env?.VITE_PUBLIC_URL || "") as string).trim();
+
+// 공유 링크: 공개 주소(없으면 현재 배포 경로) 기준, 시험장과 언어만 남김
+export function centerLink(id: string, lang: Lang, publicUrl = PUBLIC_URL, base: Location = window.location): string {
+  const root = publicUrl ? new URL(publicUrl, base.href) : new URL(base.pathname, base.origin);
+  return root.origin + root.pathname + writeUrlState("", { center: id, lang });
+}
+
+export function qrDataUrl(text: string): Promise<string> {
+  return QRCode.toDataURL(text, { errorCorrectionLevel: "M", margin: 1, width: 240 });
+}
+
+function waitForIdle(map: MlMap, timeoutMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => { clearTimeout(timer); map.off("idle", done); resolve(); };
+    const timer = setTimeout(done, timeoutMs);
+    map.on("idle", done);
+    map.triggerRepaint(); // 이미 멈춰 있어도 idle이 다시 오도록
+  });
+}
+
+// 그리기 직후(render 이벤트 안)에 읽어야 preserveDrawingBuffer 없이도 캔버스가 비어 있지 않다
+function readCanvas(map: MlMap): Promise<string | null> {
+  return new Promise((resolve) => {
+    map.once("render", () => {
+      try {
+        resolve(map.getCanvas().toDataURL("image/jpeg", 0.85));
+      } catch (e) {
+        // 교차 출처 타일로 캔버스가 오염된 경우 등
+        console.warn("[print] map snapshot failed", e);
+        resolve(null);
+      }
+    });
+    map.triggerRepaint();
+  });
+}
+
+// 시험장마다 지도를 옮겨 캡처하고, 끝나면 원래 뷰로 복귀
+export async function capturePages(
+  map: MlMap | null,
+  centers: Center[],
+  lang: Lang,
+  onPage?: (page: PrintPage) => void, // 한 장씩 준비될 때마다(진행률 표시)
+  signal?: AbortSignal,
+): Promise<PrintPage[]> {
+  const view = map && { center: map.getCenter(), zoom: map.getZoom(), padding: map.getPadding() };
+  if (map) map.setPadding({ top: 0, right: 0, bottom: 0, left: 0 });
+  const pages: PrintPage[] = [];
+  try {
+    for (const c of centers) {
+      if (signal?.aborted) break;
+      const url = centerLink(c.id, lang);
+      let snapshot: string | null = null;
+      if (map) {
+        map.jumpTo({ center: [c.lng, c.lat], zoom: PRINT_ZOOM });
+        await waitForIdle(map, IDLE_TIMEOUT_MS);
+        snapshot = await readCanvas(map);
+      }
+      const page: PrintPage = { center: c, url, qr: await qrDataUrl(url), map: snapshot };
+      pages.push(page);
+      onPage?.(page);
+    }
+  } finally {
+    if (map && view) {
+      map.setPadding(view.padding);
+      map.jumpTo({ center: view.center, zoom: view.zoom });
+    }
+  }
+  return pages;
+}
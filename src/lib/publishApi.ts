@@ -0,0 +1,64 @@
+import type { IngestIssue } from "./csv";
+
+// =========================
+// 게시 서비스(server/api.ts) 클라이언트
+// - 같은 주소의 <배포 경로>/api/* 로 요청, 로그인은 HttpOnly 쿠키
+// - 서비스가 없는 정적 배포에서는 unavailable
+// - 오류는 code로 구분하고 화면 문구는 부르는 쪽에서 고른다(admin.error.<code>)
+// =========================
+export type PublishedVersion = {
+  version: number;
+  publishedAt: string;
+  user: string;
+  message: string;
+  records: number;
+  rollbackOf?: number;
+};
+
+export type ApiErrorCode =
+  | "unavailable" // 서비스 없음·네트워크 오류(status 0)
+  | "unauthorized"
+  | "invalid_credentials"
+  | "locked"
+  | "bad_request"
+  | "not_found"
+  | "invalid_data" // 검증 오류(issues)
+  | "empty"
+  | "build_failed"
+  | "server_error";
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; code: ApiErrorCode; error: string; issues?: IngestIssue[] };
+
+function apiUrl(name: string) {
+  const base = ((import.meta as any)?.env?.BASE_URL || "/") as string;
+  return new URL(`${base.replace(/\/?$/, "/")}api/${name}`, window.location.origin).toString();
+}
+
+async function request<T>(method: "GET" | "POST", name: string, body?: unknown): Promise<ApiResult<T>> {
+  try {
+    const res = await fetch(apiUrl(name), {
+      method,
+      credentials: "same-origin",
+      cache: "no-store",
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => null);
+    if (!data) return { ok: false, status: 0, code: "unavailable", error: `HTTP ${res.status}` }; // 정적 배포: HTML/404
+    if (res.ok) return { ok: true, data: data as T };
+    return { ok: false, status: res.status, code: data.code || "server_error", error: data.error || `HTTP ${res.status}`, issues: data.issues };
+  } catch (e: any) {
+    return { ok: false, status: 0, code: "unavailable", error: e?.message || String(e) };
+  }
+}
+
+export const getSession = () => request<{ user: string }>("GET", "session");
+export const login = (username: string, password: string) => request<{ user: string }>("POST", "login", { username, password });
+export const logout = () => request<{}>("POST", "logout", {});
+export const getHistory = () => request<{ versions: PublishedVersion[] }>("GET", "history");
+export const publishCSV = (csv: string, message: string) =>
+  request<{ version: PublishedVersion; issues: IngestIssue[] }>("POST", "publish", { csv, message });
+export const rollbackTo = (version: number) =>
+  request<{ version: PublishedVersion; issues: IngestIssue[] }>("POST", "rollback", { version });
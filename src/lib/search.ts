@@ -0,0 +1,250 @@
+import type { Center } from "./centers";
+import { districtLabel } from "./districts";
+import { localized, type Lang } from "./i18n";
+
+// =========================
+// 한글 검색
+// - 공백·문장부호 무시, 대소문자 무시
+// - 초성 검색(ㄱㄴ → 강남), 입력 중인 마지막 글자(강나 → 강남)
+// - 자모 단위 편집 거리로 오타 허용
+// - 필드 가중치(이름 > 자치구 > 태그 > 주소 > 메모)로 순위
+// - 영어 화면에서는 영문 필드(name_en 등)를 색인하고, 한국어 이름·주소도 강조 없이 함께 찾는다
+// =========================
+export type Range = [number, number]; // 원문 기준 [start, end)
+export type MatchKind = "exact" | "prefix" | "substring" | "choseong" | "fuzzy";
+export type SearchField = "name" | "district" | "tags" | "address" | "note";
+export type HighlightField = "name" | "address" | "note";
+
+export type SearchHit<T> = {
+  item: T;
+  score: number;
+  field: SearchField; // 가장 높은 점수를 낸 필드
+  kind: MatchKind;
+  ranges: Partial<Record<HighlightField, Range[]>>;
+};
+
+const SYLLABLE_FIRST = 0xac00;
+const SYLLABLE_LAST = 0xd7a3;
+const CHOSEONG = ["ㄱ", "ㄲ", "ㄴ", "ㄷ", "ㄸ", "ㄹ", "ㅁ", "ㅂ", "ㅃ", "ㅅ", "ㅆ", "ㅇ", "ㅈ", "ㅉ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ"];
+const JUNGSEONG = ["ㅏ", "ㅐ", "ㅑ", "ㅒ", "ㅓ", "ㅔ", "ㅕ", "ㅖ", "ㅗ", "ㅘ", "ㅙ", "ㅚ", "ㅛ", "ㅜ", "ㅝ", "ㅞ", "ㅟ", "ㅠ", "ㅡ", "ㅢ", "ㅣ"];
+const JONGSEONG = ["", "ㄱ", "ㄲ", "ㄳ", "ㄴ", "ㄵ", "ㄶ", "ㄷ", "ㄹ", "ㄺ", "ㄻ", "ㄼ", "ㄽ", "ㄾ", "ㄿ", "ㅀ", "ㅁ", "ㅂ", "ㅄ", "ㅅ", "ㅆ", "ㅇ", "ㅈ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ"];
+
+const FIELD_WEIGHT: Record<SearchField, number> = { name: 1, district: 0.7, tags: 0.6, address: 0.5, note: 0.3 };
+const KIND_SCORE: Record<MatchKind, number> = { exact: 120, prefix: 100, substring: 80, choseong: 60, fuzzy: 40 };
+
+const isSyllable = (ch: string) => {
+  const c = ch.charCodeAt(0);
+  return c >= SYLLABLE_FIRST && c <= SYLLABLE_LAST;
+};
+const isInitial = (ch: string) => CHOSEONG.includes(ch);
+
+export function choseongOf(ch: string): string {
+  return isSyllable(ch) ? CHOSEONG[Math.floor((ch.charCodeAt(0) - SYLLABLE_FIRST) / 588)] : ch;
+}
+
+export function decompose(ch: string): string[] {
+  if (!isSyllable(ch)) return [ch];
+  const code = ch.charCodeAt(0) - SYLLABLE_FIRST;
+  const jong = JONGSEONG[code % 28];
+  const out = [CHOSEONG[Math.floor(code / 588)], JUNGSEONG[Math.floor((code % 588) / 28)]];
+  return jong ? [...out, jong] : out;
+}
+
+// 검색 대상 글자(문자·숫자)만 남기고 원문 위치를 함께 보관
+type Char = { ch: string; at: number };
+const SEARCHABLE = /[\p{L}\p{N}]/u;
+
+function toChars(text: string): Char[] {
+  const out: Char[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (SEARCHABLE.test(text[i])) out.push({ ch: text[i].toLowerCase(), at: i });
+  }
+  return out;
+}
+
+function toJamo(chars: Char[]): Char[] {
+  return chars.flatMap((c) => decompose(c.ch).map((ch) => ({ ch, at: c.at })));
+}
+
+export function normalizeQuery(query: string): string {
+  return toChars(query.normalize("NFC")).map((c) => c.ch).join("");
+}
+
+type Prepared = { text: string; chars: Char[]; jamo: Char[] };
+type FieldMatch = { kind: MatchKind; edits: number; range: Range };
+
+const prepare = (text: string): Prepared => {
+  const chars = toChars(text);
+  return { text, chars, jamo: toJamo(chars) };
+};
+
+// 글자 단위 비교: 같은 글자, 초성, 입력 중인 마지막 글자(자모 접두)
+function charMatch(q: string, t: string, last: boolean): "exact" | "choseong" | null {
+  if (q === t) return "exact";
+  if (isInitial(q) && choseongOf(t) === q) return "choseong";
+  if (last && isSyllable(q) && isSyllable(t)) {
+    const qj = decompose(q);
+    const tj = decompose(t);
+    if (qj.length < tj.length && qj.every((j, i) => j === tj[i])) return "exact";
+  }
+  return null;
+}
+
+function findDirect(q: string[], f: Prepared): FieldMatch | null {
+  const t = f.chars;
+  let best: FieldMatch | null = null;
+  for (let s = 0; s + q.length <= t.length; s++) {
+    let viaInitial = false;
+    let ok = true;
+    for (let i = 0; i < q.length && ok; i++) {
+      const m = charMatch(q[i], t[s + i].ch, i === q.length - 1);
+      if (!m) ok = false;
+      else if (m === "choseong") viaInitial = true;
+    }
+    if (!ok) continue;
+    const kind: MatchKind = viaInitial ? "choseong" : s === 0 ? (q.length === t.length ? "exact" : "prefix") : "substring";
+    if (!best || KIND_SCORE[kind] > KIND_SCORE[best.kind]) {
+      best = { kind, edits: 0, range: [t[s].at, t[s + q.length - 1].at + 1] };
+    }
+    if (kind !== "choseong") break; // 앞쪽의 정확한 일치가 가장 좋음
+  }
+  return best;
+}
+
+// 근사 부분 문자열 일치(Sellers): 질의 자모열과 편집 거리가 가장 작은 구간
+function findFuzzy(q: string[], f: Prepared, maxEdits: number): FieldMatch | null {
+  const t = f.jamo;
+  const n = t.length;
+  if (maxEdits <= 0 || n === 0) return null;
+  let prev = new Array<number>(n + 1).fill(0);
+  let prevStart = Array.from({ length: n + 1 }, (_, j) => j);
+  for (let i = 1; i <= q.length; i++) {
+    const cur = new Array<number>(n + 1);
+    const curStart = new Array<number>(n + 1);
+    cur[0] = i;
+    curStart[0] = 0;
+    for (let j = 1; j <= n; j++) {
+      let v = prev[j - 1] + (q[i - 1] === t[j - 1].ch ? 0 : 1);
+      let s = prevStart[j - 1];
+      if (prev[j] + 1 < v) { v = prev[j] + 1; s = prevStart[j]; }
+      if (cur[j - 1] + 1 < v) { v = cur[j - 1] + 1; s = curStart[j - 1]; }
+      cur[j] = v;
+      curStart[j] = s;
+    }
+    prev = cur;
+    prevStart = curStart;
+  }
+  let best: FieldMatch | null = null;
+  for (let j = 1; j <= n; j++) {
+    const s = prevStart[j];
+    if (prev[j] > maxEdits || s >= j) continue;
+    if (!best || prev[j] < best.edits) best = { kind: "fuzzy", edits: prev[j], range: [t[s].at, t[j - 1].at + 1] };
+  }
+  return best;
+}
+
+// 자모 4개당 1회(최대 3회)까지 오타 허용. 초성만 입력한 질의는 오타 검색 안 함
+const allowedEdits = (jamoLength: number) => Math.min(3, Math.floor(jamoLength / 4));
+
+function matchField(query: string, f: Prepared): FieldMatch | null {
+  const q = [...query];
+  const direct = findDirect(q, f);
+  if (direct || q.length < 2 || q.every(isInitial)) return direct;
+  const qj = q.flatMap(decompose);
+  return findFuzzy(qj, f, allowedEdits(qj.length));
+}
+
+const matchScore = (field: SearchField, m: FieldMatch) => FIELD_WEIGHT[field] * (KIND_SCORE[m.kind] - 10 * m.edits);
+
+// =========================
+// 시험장 색인
+// =========================
+export type SearchEntry = {
+  center: Center;
+  name: Prepared;
+  district: Prepared;
+  address: Prepared;
+  note: Prepared;
+  tags: Prepared[];
+  originals: { field: "name" | "address" | "district"; text: Prepared }[]; // 표시 언어와 다른 한국어 원문
+};
+
+export function buildSearchIndex(centers: Center[], lang: Lang = "ko"): SearchEntry[] {
+  return centers.map((c) => {
+    const name = localized(c, "name", lang);
+    const address = localized(c, "address", lang);
+    const district = c.district ? districtLabel(c.district, lang) : "";
+    const shown = { name, address, district };
+    const originals = ([["name", c.name], ["address", c.address || ""], ["district", c.district || ""]] as const)
+      .filter(([field, text]) => text && text !== shown[field])
+      .map(([field, text]) => ({ field, text: prepare(text) }));
+    return {
+      center: c,
+      name: prepare(name),
+      district: prepare(district),
+      address: prepare(address),
+      note: prepare(localized(c, "note", lang)),
+      tags: (c.tags || []).map(prepare),
+      originals,
+    };
+  });
+}
+
+type Scored = { score: number; field: SearchField; kind: MatchKind; ranges: Partial<Record<HighlightField, Range[]>> };
+
+function scoreEntry(e: SearchEntry, query: string): Scored | null {
+  let best: Scored | null = null;
+  const ranges: Partial<Record<HighlightField, Range[]>> = {};
+  const consider = (field: SearchField, f: Prepared, highlight = true) => {
+    const m = matchField(query, f);
+    if (!m) return;
+    if (highlight && (field === "name" || field === "address" || field === "note")) ranges[field] = [m.range];
+    const score = matchScore(field, m);
+    if (!best || score > best.score) best = { score, field, kind: m.kind, ranges };
+  };
+  consider("name", e.name);
+  consider("district", e.district);
+  e.tags.forEach((t) => consider("tags", t));
+  consider("address", e.address);
+  consider("note", e.note);
+  e.originals.forEach((o) => consider(o.field, o.text, false));
+  return best;
+}
+
+// 공백으로 나뉜 여러 단어: 전체로 먼저 찾고, 없으면 각 단어가 어느 필드에든 있어야 함(AND)
+function scoreTokens(e: SearchEntry, tokens: string[]): Scored | null {
+  const hits = tokens.map((t) => scoreEntry(e, t));
+  if (hits.some((h) => !h)) return null;
+  const all = hits as Scored[];
+  const top = all.reduce((a, b) => (b.score > a.score ? b : a));
+  const ranges: Partial<Record<HighlightField, Range[]>> = {};
+  all.forEach((h) => (Object.keys(h.ranges) as HighlightField[]).forEach((k) => {
+    ranges[k] = [...(ranges[k] || []), ...h.ranges[k]!].sort((a, b) => a[0] - b[0]);
+  }));
+  return { score: (all.reduce((n, h) => n + h.score, 0) / all.length) * 0.9, field: top.field, kind: top.kind, ranges };
+}
+
+// 점수 내림차순(동점이면 색인 순서 유지)
+export function searchCenters(index: SearchEntry[], query: string): SearchHit<Center>[] {
+  const q = normalizeQuery(query);
+  if (!q) return index.map((e) => ({ item: e.center, score: 0, field: "name" as const, kind: "exact" as const, ranges: {} }));
+  const tokens = query.normalize("NFC").split(/\s+/).map(normalizeQuery).filter(Boolean);
+  const hits: SearchHit<Center>[] = [];
+  index.forEach((e) => {
+    const s = scoreEntry(e, q) ?? (tokens.length > 1 ? scoreTokens(e, tokens) : null);
+    if (s) hits.push({ item: e.center, ...s });
+  });
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+// 겹치거나 맞닿은 구간 병합(강조 표시용)
+export function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const out: Range[] = [];
+  sorted.forEach(([s, e]) => {
+    const last = out[out.length - 1];
+    if (last && s <= last[1]) last[1] = Math.max(last[1], e);
+    else out.push([s, e]);
+  });
+  return out;
+}
@@ -0,0 +1,106 @@
+import { parseCSVRecords, type IngestIssue } from "./csv";
+import { translate, type Lang } from "./i18n";
+
+// =========================
+// 시험 일정 스키마: 시험장(Center.id)별 회차
+// =========================
+export const SESSION_KINDS = ["필기", "실기"] as const;
+export type SessionKind = (typeof SESSION_KINDS)[number];
+export const sessionKindLabel = (kind: SessionKind, lang: Lang = "ko") => translate(lang, `session.kind.${kind}`);
+
+export type ExamSession = {
+  centerId: string;
+  date: string; // YYYY-MM-DD
+  slot: string; // 예: "09:00-10:30", "1부"
+  qualification: string;
+  kind: SessionKind;
+  seats?: number;
+};
+
+export type SessionIngestResult = {
+  sessions: ExamSession[];
+  issues: IngestIssue[];
+};
+
+export const SESSION_REQUIRED_COLUMNS = ["center_id", "date", "slot", "qualification", "type"] as const;
+export const SESSION_OPTIONAL_COLUMNS = ["seats"] as const;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(s: string) {
+  if (!DATE_RE.test(s)) return false;
+  const d = new Date(s + "T00:00:00Z");
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s;
+}
+
+// centerIds를 주면 존재하지 않는 시험장을 가리키는 회차를 오류로 처리
+export function validateSession(s: ExamSession, centerIds?: Set<string>): IngestIssue[] {
+  const issues: IngestIssue[] = [];
+  const err = (field: string, message: string) => issues.push({ level: "error", id: s.centerId || undefined, field, message });
+  if (!s.centerId) err("center_id", "center_id가 비어 있습니다");
+  else if (centerIds && !centerIds.has(s.centerId)) err("center_id", `존재하지 않는 시험장입니다: ${s.centerId}`);
+  if (!isValidDate(s.date)) err("date", `날짜 형식은 YYYY-MM-DD 입니다: ${s.date}`);
+  if (!s.slot) err("slot", "slot이 비어 있습니다");
+  if (!s.qualification) err("qualification", "qualification이 비어 있습니다");
+  if (!(SESSION_KINDS as readonly string[]).includes(s.kind)) err("type", `type은 ${SESSION_KINDS.join("/")} 중 하나여야 합니다: ${s.kind}`);
+  if (s.seats !== undefined && !(Number.isInteger(s.seats) && s.seats >= 0)) err("seats", `seats는 0 이상의 정수여야 합니다: ${s.seats}`);
+  return issues;
+}
+
+export function keepValidSessions(data: ExamSession[], centerIds?: Set<string>): SessionIngestResult {
+  const issues: IngestIssue[] = [];
+  const sessions = data.filter((s) => {
+    const found = validateSession(s, centerIds);
+    issues.push(...found);
+    return !found.some((i) => i.level === "error");
+  });
+  return { sessions, issues };
+}
+
+// CSV → ExamSession[]: centers와 같은 방식으로 오류 행은 제외
+export function ingestSessionsCSV(text: string, centerIds?: Set<string>): SessionIngestResult {
+  const { records, issues } = parseCSVRecords(text);
+  if (records.length === 0) return { sessions: [], issues };
+
+  const [head, ...rows] = records;
+  const header = head.cells.map((h) => h.trim().toLowerCase());
+  const missing = SESSION_REQUIRED_COLUMNS.filter((k) => !header.includes(k));
+  if (missing.length > 0) {
+    issues.push({ level: "error", line: head.line, message: `CSV 헤더에 필수 컬럼이 없습니다: ${missing.join(",")}` });
+    return { sessions: [], issues };
+  }
+
+  const sessions: ExamSession[] = [];
+  for (const row of rows) {
+    const get = (k: string) => {
+      const i = header.indexOf(k);
+      return i >= 0 ? (row.cells[i] ?? "").trim() : "";
+    };
+    const seats = get("seats");
+    const s: ExamSession = {
+      centerId: get("center_id"),
+      date: get("date"),
+      slot: get("slot"),
+      qualification: get("qualification"),
+      kind: get("type") as SessionKind,
+      seats: seats === "" ? undefined : Number(seats),
+    };
+    const found = validateSession(s, centerIds).map((i) => ({ ...i, line: row.line }));
+    issues.push(...found);
+    if (!found.some((i) => i.level === "error")) sessions.push(s);
+  }
+  return { sessions, issues };
+}
+
+// 날짜·자격명으로 회차 필터. 자격명은 공백 무시 부분 일치
+export function matchSessions(sessions: ExamSession[], date: string, qualification: string): ExamSession[] {
+  const q = qualification.replace(/\s+/g, "").toLowerCase();
+  return sessions.filter((s) =>
+    (!date || s.date === date) &&
+    (!q || s.qualification.replace(/\s+/g, "").toLowerCase().includes(q))
+  );
+}
+
+export function compareSessions(a: ExamSession, b: ExamSession) {
+  return a.date.localeCompare(b.date) || a.slot.localeCompare(b.slot) || a.qualification.localeCompare(b.qualification);
+}
@@ -0,0 +1,19 @@
+import stationsJson from "../../data/stations.json";
+
+// =========================
+// 지하철역 좌표(오프라인 번들): 출발지 선택, 근접 정렬에 사용
+// =========================
+export type Station = {
+  id: string;
+  name: string;
+  name_en: string;
+  lines: string[];
+  lat: number;
+  lng: number;
+};
+
+export const STATIONS: Station[] = (stationsJson as Station[]).slice().sort((a, b) => a.name.localeCompare(b.name, "ko"));
+
+export function findStation(id: string): Station | undefined {
+  return STATIONS.find((s) => s.id === id);
+}
@@ -0,0 +1,18 @@
+import tagsJson from "../../data/tags.json";
+import { localized, type Lang } from "./i18n";
+
+// =========================
+// 태그 어휘: data/tags.json
+// - label은 CSV tags 셀에 쓰는 값 그대로, label_en은 영어 화면 표기
+// - 여기에 없는 태그는 검증 경고(lib/centers.ts)를 내고 화면에는 원문을 표시
+// =========================
+export type Tag = { label: string; label_en: string };
+
+export const TAGS: Tag[] = tagsJson;
+export const KNOWN_TAGS = TAGS.map((t) => t.label);
+const BY_LABEL = new Map(TAGS.map((t) => [t.label, t]));
+
+export function tagLabel(tag: string, lang: Lang = "ko"): string {
+  const info = BY_LABEL.get(tag.trim());
+  return info ? localized(info, "label", lang) : tag;
+}
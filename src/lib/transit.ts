@@ -0,0 +1,131 @@
+import linesJson from "../../data/lines.json";
+import { translate, type Lang } from "./i18n";
+import { STATIONS, type Station } from "./stations";
+
+// =========================
+// 대중교통(지하철) 접근 정보
+// - note(찾아오는 길) 자유 텍스트에서 노선·역·출구·도보 시간을 추출
+// - CSV transit 컬럼이 있으면 그 값을 우선(관리자 수동 지정)
+//   형식: 노선|역|출구|도보분, 여러 건은 ; 구분, 노선 여러 개는 · 구분
+//   예) 2·신분당|강남|1|8; 9|신논현|7|5
+// =========================
+export type Transit = {
+  lines: string[]; // data/lines.json id("2", "신분당" 등)
+  station: string; // 역 이름("역" 제외)
+  exit?: string; // "1", "1-1"
+  walkMinutes?: number; // 거리(m)만 있으면 분당 67m(시속 4km)로 환산
+};
+
+export type SubwayLine = { id: string; label: string; label_en: string; color: string };
+
+export const LINES: SubwayLine[] = linesJson;
+const LINE_BY_ID = new Map(LINES.map((l) => [l.id, l]));
+const UNKNOWN_LINE_COLOR = "#6b7280";
+
+export function lineInfo(id: string): SubwayLine {
+  return LINE_BY_ID.get(id) ?? { id, label: /^\d+$/.test(id) ? `${id}호선` : id, label_en: /^\d+$/.test(id) ? `Line ${id}` : id, color: UNKNOWN_LINE_COLOR };
+}
+
+export function findStationByName(name: string): Station | undefined {
+  return STATIONS.find((s) => s.name === name);
+}
+
+const WALK_METERS_PER_MINUTE = 67;
+
+// "3·8호선", "3호선·신분당선" → ["3", "8"], ["3", "신분당"]
+function parseLines(raw: string): string[] {
+  return raw.split(/[·,/\s]+/).map((t) => t.replace(/(호선|선)$/, "")).filter(Boolean);
+}
+
+function parseWalk(text: string): number | undefined {
+  const minutes = text.match(/(\d+)\s*분/);
+  if (minutes) return Number(minutes[1]);
+  const dist = text.match(/(\d+(?:\.\d+)?)\s*(km|m)(?![a-z])/i);
+  if (dist) {
+    const meters = Number(dist[1]) * (dist[2].toLowerCase() === "km" ? 1000 : 1);
+    return Math.max(1, Math.ceil(meters / WALK_METERS_PER_MINUTE));
+  }
+  if (/출구\s*앞/.test(text)) return 1;
+  return undefined;
+}
+
+const SEGMENT = /^(?:(?<lines>[0-9가-힣·\s]*?선)\s*)?(?<station>[가-힣A-Za-z0-9]+?)역(?<rest>.*)$/;
+
+// note → Transit[]. "/"로 나뉜 구간마다 한 건. 역을 찾지 못한 구간은 버린다
+export function parseTransitNote(note: string | undefined): Transit[] {
+  if (!note) return [];
+  const out: Transit[] = [];
+  note.split("/").forEach((segment) => {
+    const m = segment.trim().match(SEGMENT);
+    if (!m?.groups) return;
+    const station = m.groups.station;
+    const rest = m.groups.rest;
+    const lines = m.groups.lines ? parseLines(m.groups.lines) : findStationByName(station)?.lines ?? [];
+    const exit = rest.match(/(\d+(?:-\d+)?)\s*번\s*출구/)?.[1];
+    out.push({ lines, station, exit, walkMinutes: parseWalk(rest) });
+  });
+  return out;
+}
+
+// CSV transit 셀 → Transit[]. 형식 오류는 error 메시지로
+export function parseTransitCell(cell: string): { transit: Transit[]; error?: string } {
+  const transit: Transit[] = [];
+  for (const entry of cell.split(";").map((s) => s.trim()).filter(Boolean)) {
+    const [lines = "", station = "", exit = "", walk = ""] = entry.split("|").map((s) => s.trim());
+    const name = station.replace(/역$/, "");
+    if (!name) return { transit: [], error: `역 이름이 없습니다: ${entry}` };
+    if (walk && !/^\d+$/.test(walk)) return { transit: [], error: `도보 시간(분)이 숫자가 아닙니다: ${entry}` };
+    transit.push({
+      lines: lines ? parseLines(lines) : findStationByName(name)?.lines ?? [],
+      station: name,
+      exit: exit.replace(/번?\s*출구$|번$/, "") || undefined,
+      walkMinutes: walk ? Number(walk) : undefined,
+    });
+  }
+  return { transit };
+}
+
+export function formatTransitCell(transit: Transit[] | undefined): string {
+  return (transit || []).map((t) => [t.lines.join("·"), t.station, t.exit ?? "", t.walkMinutes ?? ""].join("|")).join("; ");
+}
+
+// 수동 지정값 > note 추출값
+export function resolveTransit(cell: string | undefined, note: string | undefined): { transit: Transit[]; error?: string } {
+  if (cell && cell.trim()) {
+    const parsed = parseTransitCell(cell);
+    if (!parsed.error) return parsed;
+    return { transit: parseTransitNote(note), error: parsed.error };
+  }
+  return { transit: parseTransitNote(note) };
+}
+
+// 내보내기용: note에서 다시 추출되는 값과 같으면 빈 칸(수동 지정이 아님)
+export function transitOverrideCell(transit: Transit[] | undefined, note: string | undefined): string {
+  const cell = formatTransitCell(transit);
+  return cell === formatTransitCell(parseTransitNote(note)) ? "" : cell;
+}
+
+// 가장 가까운 출구까지 도보 시간(모르면 undefined)
+export function minWalkMinutes(transit: Transit[] | undefined): number | undefined {
+  const known = (transit || []).map((t) => t.walkMinutes).filter((m): m is number => m !== undefined);
+  return known.length > 0 ? Math.min(...known) : undefined;
+}
+
+export function lineLabel(id: string, lang: Lang = "ko"): string {
+  const info = lineInfo(id);
+  return lang === "en" ? info.label_en : info.label;
+}
+
+// "강남역" / "Gangnam Station". 역 목록에 없으면 원래 이름
+export function stationLabel(name: string, lang: Lang = "ko"): string {
+  const station = findStationByName(name);
+  return translate(lang, "station.name", { name: lang === "en" && station ? station.name_en : name });
+}
+
+export function describeTransit(t: Transit, lang: Lang = "ko"): string {
+  return [
+    stationLabel(t.station, lang),
+    t.exit && translate(lang, "transit.exit", { exit: t.exit }),
+    t.walkMinutes !== undefined && translate(lang, "transit.walk", { minutes: t.walkMinutes }),
+  ].filter(Boolean).join(" ");
+}
@@ -0,0 +1,88 @@
+import { FACET_IDS, emptySelection, type FacetId, type FacetSelection } from "./facets";
+import { DEFAULT_LANG, isLang, type Lang } from "./i18n";
+
+// =========================
+// URL ↔ 화면 상태 직렬화
+// - 검색어, 필터(태그·분류·자치구·주차, 역 도보 N분, 지금 운영 중), 시험 일정, 선택 시험장, 지도 뷰, 언어를 쿼리스트링에 보관
+// - 필터 값이 여럿이면 같은 키를 반복(tag=필기&tag=CBT), AND 모드는 tagmode=and
+// - 언어는 기본(한국어)이 아닐 때만 lang=en
+// - 모르는 파라미터(예: admin)는 그대로 둔다
+// =========================
+export type MapView = { zoom: number; lat: number; lng: number };
+
+export type UrlState = {
+  q: string;
+  facets: FacetSelection;
+  walk: number | null; // 지하철 출구에서 도보 N분 이내
+  openNow: boolean;
+  date: string;
+  qual: string;
+  center: string | null;
+  view: MapView | null;
+  lang: Lang | null; // URL에 없으면 null(저장값·브라우저 언어로 결정)
+};
+
+const KEYS = { q: "q", walk: "walk", openNow: "open", date: "date", qual: "qual", center: "center", view: "map", lang: "lang" } as const;
+const FACET_KEYS: Record<FacetId, string> = { tag: "tag", type: "type", district: "gu", parking: "parking" };
+
+// map=zoom/lat/lng (소수 자리는 줌에 맞춰 절삭)
+export function formatMapView({ zoom, lat, lng }: MapView): string {
+  const digits = Math.max(4, Math.ceil(Math.log10(Math.pow(2, zoom))));
+  return `${zoom.toFixed(2)}/${lat.toFixed(digits)}/${lng.toFixed(digits)}`;
+}
+
+export function parseMapView(raw: string | null): MapView | null {
+  if (!raw) return null;
+  const [zoom, lat, lng] = raw.split("/").map(Number);
+  if (![zoom, lat, lng].every(Number.isFinite)) return null;
+  if (zoom < 0 || zoom > 22 || Math.abs(lat) > 85 || Math.abs(lng) > 180) return null;
+  return { zoom, lat, lng };
+}
+
+export function readUrlState(search: string): UrlState {
+  const p = new URLSearchParams(search);
+  const date = p.get(KEYS.date) || "";
+  const facets = emptySelection();
+  FACET_IDS.forEach((id) => {
+    const key = FACET_KEYS[id];
+    facets[id] = { values: Array.from(new Set(p.getAll(key).filter(Boolean))), mode: p.get(`${key}mode`) === "and" ? "and" : "or" };
+  });
+  const walk = Number(p.get(KEYS.walk));
+  const lang = p.get(KEYS.lang);
+  return {
+    q: p.get(KEYS.q) || "",
+    facets,
+    walk: Number.isInteger(walk) && walk > 0 ? walk : null,
+    openNow: p.get(KEYS.openNow) === "1",
+    date: /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : "",
+    qual: p.get(KEYS.qual) || "",
+    center: p.get(KEYS.center) || null,
+    view: parseMapView(p.get(KEYS.view)),
+    lang: isLang(lang) ? lang : null,
+  };
+}
+
+// 현재 쿼리스트링에 상태를 덮어써서 "?..." 형태로 반환(빈 값은 제거)
+export function writeUrlState(search: string, state: Partial<UrlState>): string {
+  const p = new URLSearchParams(search);
+  const set = (k: string, v: string | null | undefined) => (v ? p.set(k, v) : p.delete(k));
+  if ("q" in state) set(KEYS.q, state.q?.trim());
+  if (state.facets) {
+    FACET_IDS.forEach((id) => {
+      const key = FACET_KEYS[id];
+      const f = state.facets![id];
+      p.delete(key);
+      f.values.forEach((v) => p.append(key, v));
+      set(`${key}mode`, f.mode === "and" ? "and" : null);
+    });
+  }
+  if ("walk" in state) set(KEYS.walk, state.walk ? String(state.walk) : null);
+  if ("openNow" in state) set(KEYS.openNow, state.openNow ? "1" : null);
+  if ("date" in state) set(KEYS.date, state.date);
+  if ("qual" in state) set(KEYS.qual, state.qual?.trim());
+  if ("center" in state) set(KEYS.center, state.center);
+  if ("view" in state) set(KEYS.view, state.view ? formatMapView(state.view) : null);
+  if ("lang" in state) set(KEYS.lang, state.lang === DEFAULT_LANG ? null : state.lang);
+  const s = p.toString();
+  return s ? `?${s}` : "";
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+// 좁은 화면(모바일) 판정: 하단 시트 레이아웃 전환 기준
+export const NARROW_QUERY = "(max-width: 768px)";
+
+export function useMediaQuery(query: string): boolean {
+  const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
+  useEffect(() => {
+    const mql = window.matchMedia(query);
+    const onChange = () => setMatches(mql.matches);
+    onChange();
+    mql.addEventListener("change", onChange);
+    return () => mql.removeEventListener("change", onChange);
+  }, [query]);
+  return matches;
+}
@@ -0,0 +1,192 @@
+// =========================
+// 서비스 워커(빌드 시 scripts/service-worker.ts가 dist/sw.js로 컴파일, 설정은 __SW_*__ 상수로 주입)
+// - 앱 셸(index.html·assets·manifest) 사전 캐시. 페이지 이동은 네트워크 우선, 실패하면 캐시된 셸
+// - 공개 데이터(centers.json 등)는 stale-while-revalidate: 캐시를 바로 주고 뒤에서 갱신,
+//   캐시 시각은 응답 헤더로 전달하고 내용이 바뀌면 페이지에 알린다
+// - 지도 타일은 관할 범위·줌 범위 안의 것만 캐시 우선(개수 상한), 글리프도 캐시 우선
+// - PMTiles 아카이브는 범위 요청(Range)별로 캐시. 지도 이동이 관할 범위로 제한되어 있어 범위 판정은 하지 않는다
+// 페이지 쪽은 src/lib/offline.ts
+// =========================
+declare const __SW_VERSION__: string;
+declare const __SW_SHELL__: string[];
+declare const __SW_DATA__: string[];
+declare const __SW_CACHED_AT__: string;
+declare const __SW_DATA_UPDATED__: string;
+declare const __SW_TILES__: { bounds: [[number, number], [number, number]]; minZoom: number; maxZoom: number; maxEntries: number };
+
+// DOM 타입만 쓰는 프로젝트라 서비스 워커 타입은 필요한 만큼만 선언
+type ExtendableEvent = Event & { waitUntil(p: Promise<unknown>): void };
+type FetchEvent = ExtendableEvent & { request: Request; respondWith(r: Response | Promise<Response>): void };
+type WorkerScope = {
+  registration: { scope: string };
+  clients: { claim(): Promise<void>; matchAll(): Promise<{ postMessage(message: unknown): void }[]> };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: "install" | "activate", listener: (e: ExtendableEvent) => void): void;
+  addEventListener(type: "fetch", listener: (e: FetchEvent) => void): void;
+};
+const sw = self as unknown as WorkerScope;
+
+const SHELL_CACHE = `shell-${__SW_VERSION__}`;
+const DATA_CACHE = "data-v1";
+const MAP_CACHE = "map-v1";
+
+const scopeUrl = new URL(sw.registration.scope);
+const scoped = (name: string) => new URL(name, scopeUrl).toString();
+const DATA_URLS = new Set(__SW_DATA__.map(scoped));
+
+sw.addEventListener("install", (e) => {
+  e.waitUntil((async () => {
+    await (await caches.open(SHELL_CACHE)).addAll(__SW_SHELL__.map(scoped));
+    // 첫 방문에서 이미 받은 데이터도 바로 오프라인에서 쓸 수 있게
+    await Promise.all([...DATA_URLS].map((url) => refreshData(url).catch(() => undefined)));
+    await sw.skipWaiting();
+  })());
+});
+
+sw.addEventListener("activate", (e) => {
+  e.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((n) => n.startsWith("shell-") && n !== SHELL_CACHE).map((n) => caches.delete(n)));
+    await sw.clients.claim();
+  })());
+});
+
+sw.addEventListener("fetch", (e) => {
+  const req = e.request;
+  if (req.method !== "GET") return;
+  const url = new URL(req.url);
+  // 자체 타일(public/tiles)도 같은 출처이므로 타일·글리프를 먼저 판정
+  const range = archiveRange(req, url);
+  if (range) return e.respondWith(pmtilesRange(req, range));
+  if (isTileInArea(url) || isGlyph(url)) return e.respondWith(cacheFirst(req, MAP_CACHE, true));
+  if (url.origin !== scopeUrl.origin || !url.pathname.startsWith(scopeUrl.pathname)) return;
+  if (url.pathname.includes("/api/")) return; // 게시 서비스
+  if (req.mode === "navigate") return e.respondWith(navigate(req));
+  const key = url.origin + url.pathname;
+  if (DATA_URLS.has(key)) return e.respondWith(staleWhileRevalidate(e, key));
+  e.respondWith(cacheFirst(req, SHELL_CACHE));
+});
+
+async function navigate(req: Request): Promise<Response> {
+  try { return await fetch(req); }
+  catch { return (await caches.match(scoped("./"), { cacheName: SHELL_CACHE })) || Response.error(); }
+}
+
+async function cacheFirst(req: Request, cacheName: string, store = false): Promise<Response> {
+  const cache = await caches.open(cacheName);
+  const hit = await cache.match(req);
+  if (hit) return hit;
+  const res = await fetch(req);
+  if (store && res.ok) {
+    await cache.put(req, res.clone());
+    trimMapCache(cache);
+  }
+  return res;
+}
+
+// 네트워크에서 받아 캐시 시각 헤더를 붙여 저장. 실패 응답은 저장하지 않고 그대로 돌려준다
+async function refreshData(url: string): Promise<Response> {
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) return res;
+  const headers = new Headers(res.headers);
+  headers.set(__SW_CACHED_AT__, new Date().toISOString());
+  await (await caches.open(DATA_CACHE)).put(url, new Response(await res.clone().arrayBuffer(), { status: res.status, statusText: res.statusText, headers }));
+  return res;
+}
+
+async function staleWhileRevalidate(e: FetchEvent, url: string): Promise<Response> {
+  const cached = await (await caches.open(DATA_CACHE)).match(url);
+  const update = (async () => {
+    const before = cached ? await cached.clone().text() : null;
+    const res = await refreshData(url);
+    if (before !== null && res.ok && before !== (await res.clone().text())) {
+      (await sw.clients.matchAll()).forEach((c) => c.postMessage({ type: __SW_DATA_UPDATED__, url }));
+    }
+    return res;
+  })();
+  if (!cached) return update;
+  e.waitUntil(update.catch(() => undefined)); // 오프라인이면 캐시만
+  return cached;
+}
+
+// =========================
+// 지도 타일·글리프
+// =========================
+const TILE_PATH = /\/(\d+)\/(\d+)\/(\d+)(@2x)?\.(png|jpe?g|webp|pbf|mvt)$/;
+const GLYPH_PATH = /\/\d+-\d+\.pbf$/;
+
+// src/lib/offline.ts의 tileXY와 같은 계산
+function tileXY(lng: number, lat: number, z: number): [number, number] {
+  const n = 2 ** z;
+  const rad = (lat * Math.PI) / 180;
+  const x = Math.floor(((lng + 180) / 360) * n);
+  const y = Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n);
+  return [Math.min(n - 1, Math.max(0, x)), Math.min(n - 1, Math.max(0, y))];
+}
+
+function isTileInArea(url: URL) {
+  const m = url.pathname.match(TILE_PATH);
+  if (!m) return false;
+  const [z, x, y] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const { bounds: [[west, south], [east, north]], minZoom, maxZoom } = __SW_TILES__;
+  if (z < minZoom || z > maxZoom) return false;
+  const [x0, y0] = tileXY(west, north, z);
+  const [x1, y1] = tileXY(east, south, z);
+  return x >= x0 && x <= x1 && y >= y0 && y <= y1;
+}
+
+const isGlyph = (url: URL) => GLYPH_PATH.test(url.pathname);
+
+// =========================
+// PMTiles: 아카이브 하나를 범위 요청으로 읽는다(헤더·디렉터리·타일 모두 Range)
+// Cache API는 206 응답을 저장하지 못하므로 <아카이브>?sw-range=<시작>-<끝> 키에 200으로 저장하고 꺼낼 때 206으로 돌려준다
+// 헤더(0번 바이트부터)는 네트워크 우선: ETag가 바뀌면(아카이브 교체) 그 아카이브의 저장분을 모두 지워
+// 예전 디렉터리와 새 타일이 섞이지 않게 한다. 나머지 범위는 캐시 우선
+// =========================
+const PMTILES_PATH = /\.pmtiles$/i;
+const RANGE_HEADER = /^bytes=(\d+)-(\d+)$/;
+const KEPT_HEADERS = ["content-type", "content-range", "etag", "cache-control", "expires"];
+
+type ArchiveRange = { archive: string; start: number; key: string };
+
+function archiveRange(req: Request, url: URL): ArchiveRange | null {
+  if (!PMTILES_PATH.test(url.pathname)) return null;
+  const m = (req.headers.get("range") || "").match(RANGE_HEADER);
+  if (!m) return null;
+  const archive = url.origin + url.pathname;
+  return { archive, start: Number(m[1]), key: `${archive}?sw-range=${m[1]}-${m[2]}` };
+}
+
+const asPartial = (stored: Response) => new Response(stored.body, { status: 206, statusText: "Partial Content", headers: stored.headers });
+
+async function pmtilesRange(req: Request, { archive, start, key }: ArchiveRange): Promise<Response> {
+  const cache = await caches.open(MAP_CACHE);
+  const hit = await cache.match(key);
+  if (hit && start !== 0) return asPartial(hit);
+  let res: Response;
+  try { res = await fetch(req); }
+  catch (e) { if (hit) return asPartial(hit); throw e; }
+  if (res.status !== 206) return res; // 범위 요청을 지원하지 않는 서버의 200(아카이브 전체)은 저장하지 않음
+  if (start === 0 && hit && hit.headers.get("etag") !== res.headers.get("etag")) await clearArchive(cache, archive);
+  const headers = new Headers();
+  KEPT_HEADERS.forEach((h) => { const v = res.headers.get(h); if (v) headers.set(h, v); });
+  await cache.put(key, new Response(await res.clone().arrayBuffer(), { headers }));
+  trimMapCache(cache);
+  return res;
+}
+
+async function clearArchive(cache: Cache, archive: string) {
+  const prefix = `${archive}?sw-range=`;
+  const keys = await cache.keys();
+  await Promise.all(keys.filter((k) => k.url.startsWith(prefix)).map((k) => cache.delete(k)));
+}
+
+// 상한을 넘으면 먼저 넣은 것부터 삭제(저장할 때마다 세지 않고 50번에 한 번)
+let puts = 0;
+async function trimMapCache(cache: Cache) {
+  if (++puts % 50 !== 0) return;
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - __SW_TILES__.maxEntries)).map((k) => cache.delete(k)));
+}
+
+export {};
@@ -1,9 +1,13 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import { publishApi } from "./server/vite";
+import { serviceWorker } from "./scripts/service-worker";
 
 export default defineConfig({
   base: "/seoulgn-exam-map/",
-  plugins: [react()]
+  plugins: [react(), publishApi(), serviceWorker()],
+  server: {
+    // 게시 서비스 상태(계정 해시·이력)는 개발 서버로 내보내지 않음
+    fs: { deny: [".env", ".env.*", "*.{crt,pem}", ".publish/**"] },
+  },
 });
-
-